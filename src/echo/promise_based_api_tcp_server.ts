@@ -1,6 +1,9 @@
 import * as net from "net";
-import { TCPConn, TCPListener } from "./types";
-import { customLog } from "../utils";
+import * as tls from "tls";
+import { ConnectOptions, ListenOptions, TCPConn, TCPListener, TimeoutError, TLSOptions } from "./types";
+import { customLog, LogLevel } from "../utils";
+
+const kMaxQueued = 128; // connections waiting for soAccept beyond this are rejected
 
 function soInit(socket: net.Socket): TCPConn {
 	const conn: TCPConn = {
@@ -8,6 +11,8 @@ function soInit(socket: net.Socket): TCPConn {
 		reader: null,
 		err: null,
 		ended: false,
+		deadline: null,
+		minRate: null,
 	};
 	socket.on("data", (data: Buffer) => {
 		console.assert(conn.reader); // there must be a reader. if not, the data is lost.
@@ -34,14 +39,31 @@ function soInit(socket: net.Socket): TCPConn {
 			conn.reader = null;
 		}
 	});
+
+	socket.on("close", () => {
+		// the socket was destroyed locally, a pending read sees the end of the stream
+		conn.ended = true;
+		if (conn.reader) {
+			conn.reader.resolve(Buffer.from(""));
+			conn.reader = null;
+		}
+	});
 	
 
 	return conn;
 }
 
-function soRead(conn: TCPConn): Promise<Buffer> {
+/**
+ * Reads the next piece of data from the connection.
+ * The read is also limited by the deadline and the minimum rate of the connection.
+ * @param conn - The connection to read from.
+ * @param timeout - The time to wait for the data in milliseconds, no limit if omitted.
+ * @returns The data, empty once the connection ended.
+ * @throws {TimeoutError} If no data arrived before the timeout or the deadline.
+ */
+function soRead(conn: TCPConn, timeout?: number): Promise<Buffer> {
 	console.assert(!conn.reader);
-	customLog(`reading from socket ${conn.socket.remoteAddress}:${conn.socket.remotePort}`, 0);
+	customLog(`reading from socket ${conn.socket.remoteAddress}:${conn.socket.remotePort}`, LogLevel.DEBUG);
 	return new Promise((resolve, reject) => {
 		if (conn.err) {
 			reject(conn.err);
@@ -53,13 +75,57 @@ function soRead(conn: TCPConn): Promise<Buffer> {
 			return;
 		}
 
+		const limit = readLimit(conn, timeout);
+		let timer: NodeJS.Timeout | null = null;
+		if (limit !== null) {
+			timer = setTimeout(() => {
+				// cancel the pending read
+				conn.reader = null;
+				conn.socket.pause();
+				reject(new TimeoutError("read timeout"));
+			}, Math.max(limit - Date.now(), 0));
+		}
+		const done = () => {
+			if (timer) {
+				clearTimeout(timer);
+			}
+		};
+
 		// save the promise callbacks
-		conn.reader = { resolve: resolve, reject: reject };
+		conn.reader = {
+			resolve: (data: Buffer) => {
+				done();
+				if (conn.minRate) {
+					conn.minRate.bytes += data.length;
+				}
+				resolve(data);
+			},
+			reject: (err: Error) => { done(); reject(err); },
+		};
 		// and resume the 'data' event to fulfill the promise later.
 		conn.socket.resume();
 	});
 }
 
+/**
+ * Computes the time a read must complete by.
+ * @returns The time in ms since the epoch, or null if the read is not limited.
+ */
+function readLimit(conn: TCPConn, timeout?: number): number | null {
+	const limits: number[] = [];
+	if (timeout !== undefined) {
+		limits.push(Date.now() + timeout);
+	}
+	if (conn.deadline !== null) {
+		limits.push(conn.deadline);
+	}
+	if (conn.minRate) {
+		const rate = conn.minRate;
+		limits.push(rate.since + rate.grace + (rate.bytes * 1000) / rate.bytesPerSec);
+	}
+	return limits.length > 0 ? Math.min(...limits) : null;
+}
+
 function soWrite(conn: TCPConn, data: Buffer): Promise<void> {
 	console.assert(data.length > 0);
 	return new Promise((resolve, reject) => {
@@ -114,26 +180,57 @@ async function serveClient(socket: net.Socket): Promise<void> {
 	}
 }
 
-function soListen(port: number, host?: string): TCPListener {
+/**
+ * Starts listening on the given port and host. The server stays bound, the
+ * incoming connections are queued until `soAccept` takes them.
+ * @param port - The port number to listen on.
+ * @param host - The host address to bind the server to.
+ * @param options - The limits of the listener.
+ * @returns The listener.
+ */
+function soListen(port: number, host?: string, options: ListenOptions = {}): TCPListener {
 	const listener: TCPListener = {
-		server: net.createServer(),
+		server: options.tls ? createTLSServer(options.tls) : net.createServer({ pauseOnConnect: true }),
 		port: port,
 		host: host || undefined,
 		connectionHandler: null,
 		err: null,
+		queue: [],
+		active: 0,
+		maxConnections: options.maxConnections || Infinity,
+		maxQueued: options.maxQueued || kMaxQueued,
+		closed: false,
 	};
 
-	// listener.server.listen(port, host, () => {
-	// 	listener.listening = true;
-	// 	console.log('listening on', host + ':' + port);
-	// });
+	listener.server.listen({ port: port, host: host, backlog: options.backlog }, () => {
+		console.log("listening on", listener.host + ":" + listener.port);
+	});
 
-	listener.server.on("connection", (socket) => {
-		console.assert(listener.connectionHandler);
-		// console.log('new connection from', socket.remoteAddress, socket.remotePort);
-		listener.server.close();
-		listener.connectionHandler!.resolve(socket);
-		listener.connectionHandler = null;
+	// a TLS socket is handed out once the handshake is done
+	const event = options.tls ? "secureConnection" : "connection";
+	listener.server.on(event, (socket: net.Socket) => {
+		if (options.tls) {
+			socket.pause();
+		}
+		if (listener.queue.length >= listener.maxQueued) {
+			// too many connections are waiting, reject this one
+			customLog(`rejecting connection from ${socket.remoteAddress}:${socket.remotePort}, queue full`, LogLevel.WARN);
+			socket.destroy();
+			return;
+		}
+		listener.queue.push(socket);
+		socket.once("close", () => {
+			// the client gave up while waiting in the queue
+			const idx = listener.queue.indexOf(socket);
+			if (idx >= 0) {
+				listener.queue.splice(idx, 1);
+			}
+		});
+		dispatch(listener);
+	});
+
+	listener.server.on("tlsClientError", (err: Error, socket: tls.TLSSocket) => {
+		customLog(`TLS handshake failed with ${socket.remoteAddress}:${socket.remotePort}: ${err.message}`, LogLevel.WARN);
 	});
 
 	listener.server.on("error", (err) => {
@@ -148,6 +245,74 @@ function soListen(port: number, host?: string): TCPListener {
 	return listener;
 }
 
+/**
+ * Creates the TLS server of a listener.
+ * @param options - The certificates and the client authentication options.
+ * @returns The TLS server.
+ */
+function createTLSServer(options: TLSOptions): tls.Server {
+	let sniCallback = options.SNICallback;
+	if (!sniCallback && options.sni) {
+		// a map, so names like "constructor" do not match inherited members
+		const contexts = new Map<string, tls.SecureContext>();
+		for (const name of Object.keys(options.sni)) {
+			// the client certificates are verified with the context of the server name
+			contexts.set(name.toLowerCase(), tls.createSecureContext({
+				cert: options.sni[name].cert,
+				key: options.sni[name].key,
+				ca: options.ca,
+			}));
+		}
+		sniCallback = (servername, cb) => {
+			const name = servername.toLowerCase();
+			let ctx = contexts.get(name);
+			const dot = name.indexOf(".");
+			if (!ctx && dot > 0) {
+				ctx = contexts.get("*" + name.slice(dot));
+			}
+			// an unknown name gets the default certificate
+			cb(null, ctx);
+		};
+	}
+
+	return tls.createServer({
+		cert: options.cert,
+		key: options.key,
+		ca: options.ca,
+		requestCert: options.requestCert || false,
+		rejectUnauthorized: options.requestCert ? options.rejectUnauthorized !== false : false,
+		SNICallback: sniCallback,
+		ALPNProtocols: options.ALPNProtocols,
+	});
+}
+
+/**
+ * Hands the first queued connection to the pending accept, if any and if the
+ * maximum number of concurrent connections is not reached.
+ */
+function dispatch(listener: TCPListener): void {
+	if (!listener.connectionHandler || listener.queue.length === 0) {
+		return;
+	}
+	if (listener.active >= listener.maxConnections) {
+		// the connection waits in the queue until an active one closes
+		return;
+	}
+	const socket = listener.queue.shift()!;
+	listener.active++;
+	socket.once("close", () => {
+		listener.active--;
+		dispatch(listener);
+	});
+	listener.connectionHandler.resolve(socket);
+	listener.connectionHandler = null;
+}
+
+/**
+ * Waits for the next connection.
+ * @param listener - The listener to accept the connection from.
+ * @returns The socket of the connection, paused until it is read.
+ */
 function soAccept(listener: TCPListener): Promise<net.Socket> {
 	return new Promise((resolve, reject) => {
 		if (listener.err) {
@@ -155,14 +320,83 @@ function soAccept(listener: TCPListener): Promise<net.Socket> {
 			return;
 		}
 
+		if (listener.closed) {
+			reject(new Error("listener closed"));
+			return;
+		}
+
 		if (listener.connectionHandler) {
 			reject(new Error("another accept is pending"));
 			return;
 		}
 
 		listener.connectionHandler = { resolve: resolve, reject: reject };
-		listener.server.listen(listener.port, listener.host, () => {
-			console.log("listening on", listener.host + ":" + listener.port);
+		dispatch(listener);
+	});
+}
+
+/**
+ * Stops listening. The queued connections are dropped and a pending accept fails,
+ * the accepted connections are left open.
+ * @param listener - The listener to close.
+ */
+function soClose(listener: TCPListener): void {
+	listener.closed = true;
+	listener.server.close();
+	for (const socket of listener.queue.splice(0)) {
+		socket.destroy();
+	}
+	if (listener.connectionHandler) {
+		listener.connectionHandler.reject(new Error("listener closed"));
+		listener.connectionHandler = null;
+	}
+}
+
+/**
+ * Returns the number of connections of the listener.
+ * @param listener - The listener.
+ * @returns The accepted connections still open and the ones waiting to be accepted.
+ */
+function soConnectionCounts(listener: TCPListener): { active: number, queued: number } {
+	return { active: listener.active, queued: listener.queue.length };
+}
+
+/**
+ * Opens a connection to a server.
+ * @param port - The port to connect to.
+ * @param host - The host to connect to.
+ * @param options - The options of the connection.
+ * @returns The connection, ready for soRead and soWrite.
+ * @throws {TimeoutError} If the connection is not established before the timeout.
+ */
+function soConnect(port: number, host: string, options: ConnectOptions = {}): Promise<TCPConn> {
+	return new Promise((resolve, reject) => {
+		const socket: net.Socket = options.tls
+			? tls.connect({ port: port, host: host, servername: net.isIP(host) ? undefined : host, ...options.tls })
+			: net.connect({ port: port, host: host });
+		let timer: NodeJS.Timeout | null = null;
+		if (options.timeout !== undefined) {
+			timer = setTimeout(() => {
+				socket.destroy();
+				reject(new TimeoutError("connect timeout"));
+			}, options.timeout);
+		}
+		const onError = (err: Error) => {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			reject(err);
+		};
+		socket.once("error", onError);
+		socket.once(options.tls ? "secureConnect" : "connect", () => {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			socket.removeListener("error", onError);
+			const conn = soInit(socket);
+			// the data listener of soInit starts the flow, it must wait for a read
+			socket.pause();
+			resolve(conn);
 		});
 	});
 }
@@ -193,7 +427,10 @@ export {
 	soInit,
 	soRead,
 	soWrite,
+	soConnect,
 	soListen,
 	soAccept,
+	soConnectionCounts,
+	soClose,
 	echoTcpServer,
 };
@@ -1,4 +1,6 @@
 import * as net from 'net';
+import * as tls from 'tls';
+import { Headers } from '../protocol/headers';
 import { exitCode } from 'process';
 
 export type TCPConn = {
@@ -11,6 +13,17 @@ export type TCPConn = {
 
 	ended: boolean;
 	err: null | Error;
+
+	// reads fail with a TimeoutError after this time, in ms since the epoch
+	deadline: null | number;
+	// reads fail with a TimeoutError when the data arrives slower than this since `since`
+	minRate: null | {
+		bytesPerSec: number,
+		since: number,
+		// time allowed before the rate is enforced, in ms
+		grace: number,
+		bytes: number,
+	};
 };
 
 // promise based
@@ -24,6 +37,64 @@ export type TCPListener = {
 		reject: (err: Error) => void
 	};
 	err: null | Error;
+
+	// connections waiting for soAccept
+	queue: net.Socket[];
+	// accepted connections not closed yet
+	active: number;
+	maxConnections: number;
+	maxQueued: number;
+	closed: boolean;
+};
+
+export type ListenOptions = {
+	// connections beyond this wait in the queue until an active one closes
+	maxConnections?: number,
+	// connections arriving when the queue is full are rejected
+	maxQueued?: number,
+	// backlog of the listening socket
+	backlog?: number,
+	// serve TLS instead of plain TCP
+	tls?: TLSOptions,
+};
+
+export type ConnectOptions = {
+	// time to establish the connection, in milliseconds
+	timeout?: number,
+	// connect with TLS, the server name defaults to the host
+	tls?: tls.ConnectionOptions,
+};
+
+export type TLSCertificate = {
+	cert: string | Buffer,
+	key: string | Buffer,
+};
+
+export type TLSOptions = TLSCertificate & {
+	// the CAs the client certificates are verified with
+	ca?: string | Buffer | Array<string | Buffer>,
+	// ask the clients for a certificate
+	requestCert?: boolean,
+	// reject the clients without a valid certificate, when requestCert is set
+	rejectUnauthorized?: boolean,
+	// certificates by server name, "*.example.com" matches a single label
+	sni?: { [servername: string]: TLSCertificate },
+	// takes precedence over sni
+	SNICallback?: (servername: string, cb: (err: Error | null, ctx?: tls.SecureContext) => void) => void,
+	// protocols offered through ALPN
+	ALPNProtocols?: string[],
+};
+
+export type TLSInfo = {
+	// the negotiated TLS version, e.g. "TLSv1.3"
+	protocol: string | null,
+	cipher: string,
+	// the protocol negotiated through ALPN
+	alpnProtocol: string | null,
+	servername: string | null,
+	// whether the client certificate was verified with the CA
+	authorized: boolean,
+	peerCertificate: tls.PeerCertificate | null,
 };
 
 export type DynBuf = {
@@ -32,30 +103,304 @@ export type DynBuf = {
 	begin: number,
 };
 
+// the query parameters by name, in order of appearance
+export type QueryParams = { [name: string]: string[] };
+
+export type RequestURL = {
+	// the form of the request-target
+	form: "origin" | "absolute" | "authority" | "asterisk",
+	// only known for the absolute-form
+	scheme: string | null,
+	// from the request-target, or else the Host header
+	host: string | null,
+	port: number | null,
+	// normalized and still percent-encoded, empty for the authority and asterisk forms
+	path: string,
+	// the percent-decoded path
+	pathname: string,
+	// the raw query, without the "?"
+	search: string,
+};
+
 export type HTTPReq = {
 	method: string,
+	// the raw request-target
 	uri: Buffer,
+	url: RequestURL,
+	query: QueryParams,
 	version: string,
-	headers: Buffer[],	
+	headers: Headers,
+	// the cookies sent by the client, by name
+	cookies: { [name: string]: string },
+	// set by the sessions middleware
+	session?: Session,
+	// set when the connection uses TLS
+	tls?: TLSInfo,
+	// the peer of the connection, set by the server
+	remote?: { address: string, port: number },
+	// the connection, for the responses that must notice the client leaving;
+	// set by the server
+	conn?: TCPConn,
+	// tells the responses outliving the request that the server is closing;
+	// set by the server
+	shutdown?: Shutdown,
 }
 
+// the functions ending the WebSocket sessions, event streams and tunnels when
+// the server closes
+export type Shutdown = {
+	closing: boolean,
+	hooks: Set<() => void>,
+};
+
 export type HTTPRes = {
 	code: number,
-	headers: Buffer[],
+	// the reason phrase of the status line, the registered one by default
+	reason?: string,
+	headers: Headers,
 	body: BodyReader,
+	// sent after a chunked body, read once the body is fully written
+	trailers?: Headers,
+	// takes over the connection after a 101 response or a 2xx response to CONNECT,
+	// with the unread data in buf; the body is closed once it returns
+	upgrade?: (conn: TCPConn, buf: DynBuf) => Promise<void>,
 }
 
 export type BodyReader = {
 	length: number,
-	read: () => Promise<Buffer> 
+	read: () => Promise<Buffer>,
+	// trailer fields of a chunked body, set once the whole body has been read
+	trailers?: Headers,
+	// releases the resources of the reader, called once the body is written or on error
+	close?: () => Promise<void>,
 } // 
 
-export class HTTPError extends Error {
-	code: number;
-	
-	constructor(code: number, message: string) {
+// a response received by the HTTP client
+export type HTTPClientRes = {
+	code: number,
+	reason: string,
+	version: string,
+	headers: Headers,
+	// must be read to the end or closed, which releases the connection
+	body: BodyReader,
+};
+
+// the idle keep-alive connections of the HTTP client
+export type ClientPool = {
+	// by "scheme//host:port"
+	idle: Map<string, Array<{ conn: TCPConn, timer: NodeJS.Timeout }>>,
+	maxIdlePerHost: number,
+	// idle connections are closed after this, in milliseconds
+	idleTimeout: number,
+};
+
+export type SessionData = { [key: string]: unknown };
+
+// the session of a request, its data is saved once the handler returns
+export type Session = {
+	id: string,
+	data: SessionData,
+	// no cookie identified the session yet
+	isNew: boolean,
+	// the session is deleted from the store and its cookie cleared
+	destroyed: boolean,
+	// the session is moved to a new id, e.g. after a login
+	regenerate: boolean,
+};
+
+// where the sessions are kept between the requests
+export type SessionStore = {
+	get: (id: string) => Promise<SessionData | null>,
+	// expires is in ms since the epoch
+	set: (id: string, data: SessionData, expires: number) => Promise<void>,
+	destroy: (id: string) => Promise<void>,
+};
+
+// an event of a Server-Sent Events stream
+export type SSEEvent = {
+	id?: string,
+	// the type of the event, "message" for the client if absent
+	event?: string,
+	// may span several lines
+	data: string,
+	// the reconnection delay of the client, in milliseconds
+	retry?: number,
+};
+
+export type SSEStream = {
+	writer: ResponseWriter,
+	// the Last-Event-ID of a reconnecting client, null on the first connection
+	lastEventId: string | null,
+	// set once the client is gone or the stream ended
+	closed: boolean,
+	// the writes the server has not sent yet
+	pending: number,
+	// resolves once the stream is closed
+	done: Promise<void>,
+	// resolves the done promise
+	finish: () => void,
+};
+
+// a backend server of the reverse proxy
+export type Upstream = {
+	// the origin, e.g. "http://127.0.0.1:9000"
+	origin: string,
+	// sent as the Host header unless the proxy keeps the one of the client
+	host: string,
+	healthy: boolean,
+	// the requests in progress, for the least-connections strategy
+	active: number,
+};
+
+export type UpstreamPool = {
+	upstreams: Upstream[],
+	strategy: "round-robin" | "least-connections",
+	// the index where the round-robin search starts
+	next: number,
+	// the keep-alive connections to the upstreams
+	client: ClientPool,
+	healthTimer: NodeJS.Timeout | null,
+};
+
+// pushes a response instead of returning a BodyReader, see streamResponse
+export type ResponseWriter = {
+	// sets the status and the headers, 200 if data is written first
+	writeHead: (code: number, headers?: Headers) => void,
+	// resolves once the data is written to the connection
+	write: (data: Buffer | string) => Promise<void>,
+	// ends the body, after writing the optional last data
+	end: (data?: Buffer | string) => Promise<void>,
+	// sent after the body, only announced if set before the head
+	trailers: Headers,
+};
+
+export type HTTPHandler = (req: HTTPReq, body: BodyReader) => Promise<HTTPRes>;
+
+// runs around the rest of the chain, which is called through next
+export type Middleware = (
+	req: HTTPReq,
+	body: BodyReader,
+	next: HTTPHandler
+) => Promise<HTTPRes>;
+
+export type RouteParams = { [key: string]: string };
+
+export type RouteHandler = (
+	req: HTTPReq,
+	body: BodyReader,
+	params: RouteParams
+) => Promise<HTTPRes>;
+
+export type Route = {
+	method: string,
+	// path split on "/", a segment is either literal, ":name" or a trailing "*"
+	segments: string[],
+	handler: RouteHandler,
+};
+
+export type Router = {
+	routes: Route[],
+};
+
+export type ServerOptions = {
+	// time to wait for the next request on an idle connection, in milliseconds
+	keepAliveTimeout?: number,
+	// the connection is closed after this number of requests
+	maxRequestsPerConn?: number,
+	// time to receive the whole header block once it started, in milliseconds
+	headerTimeout?: number,
+	// time to receive the whole request, header and body, in milliseconds
+	requestTimeout?: number,
+	// minimum transfer rate of the request body, in bytes per second
+	minBodyRate?: number,
+	// limits of the listener
+	listen?: ListenOptions,
+	parser?: ParserOptions,
+};
+
+// the request parser is strict by default, each option accepts a violation of RFC 9112
+export type ParserOptions = {
+	// more header fields than this are rejected with 431
+	maxHeaderCount?: number,
+	// size of the request line and the header fields, a bigger head is rejected with 431
+	maxHeaderSize?: number,
+	// unfold the obsolete line folding instead of rejecting the request
+	allowObsFold?: boolean,
+	// read a body with both Content-Length and Transfer-Encoding as chunked and
+	// close the connection after it, instead of rejecting the request
+	allowLengthConflict?: boolean,
+	// accept HTTP/1.1 requests without a Host header
+	allowMissingHost?: boolean,
+};
+
+export type HTTPServer = {
+	listener: TCPListener;
+	address: () => net.AddressInfo | string | null;
+	// stops accepting, lets the in-flight requests finish, closes the idle connections
+	// and ends the WebSocket sessions, event streams and tunnels
+	close: () => Promise<void>;
+	// like close, but destroys the connections still open after the timeout in ms
+	closeForcefully: (timeout: number) => Promise<void>;
+	// resolves once the server is closed and all the connections drained
+	closed: Promise<void>;
+};
+
+export type WSMessage = {
+	type: "text" | "binary",
+	data: Buffer,
+};
+
+// promise based
+export type WebSocket = {
+	conn: TCPConn;
+	buf: DynBuf;
+	maxMessageSize: number;
+	// time the peer has to answer a close frame, in milliseconds
+	closeTimeout: number;
+	// the negotiated subprotocol, if any
+	protocol: null | string;
+
+	// a close frame was sent
+	closeSent: boolean;
+	// a close frame was received or the connection ended
+	closeReceived: boolean;
+	// the close code received from the peer
+	closeCode: null | number;
+};
+
+// a part of a multipart/form-data body
+export type FormPart = {
+	name: string,
+	// set for the file parts
+	filename: null | string,
+	contentType: string,
+	headers: Headers,
+	// streams the content of the part, must be read before the next part
+	body: BodyReader,
+};
+
+export type MultipartForm = {
+	source: BodyReader,
+	buf: DynBuf,
+	// the delimiter of the parts, CRLF and "--" followed by the boundary
+	delimiter: Buffer,
+	maxParts: number,
+	maxHeaderSize: number,
+	maxPartSize: number,
+	// the part being read
+	current: null | FormPart,
+	parts: number,
+	// the close delimiter was read
+	done: boolean,
+};
+
+/**
+ * Base of the error classes. The ES5 output of a class extending Error loses the
+ * prototype of the subclass, which is restored so that instanceof works.
+ */
+export class BaseError extends Error {
+	constructor(message: string) {
 		super(message);
-		this.code = code;
 
 		const actualProto = new.target.prototype;
 		if(Object.setPrototypeOf){
@@ -64,4 +409,15 @@ export class HTTPError extends Error {
 			(this as any).__proto__ = actualProto;
 		}
 	}
-}
\ No newline at end of file
+}
+
+export class HTTPError extends BaseError {
+	code: number;
+	
+	constructor(code: number, message: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
+export class TimeoutError extends BaseError {}
@@ -1,6 +1,110 @@
+import * as crypto from 'crypto';
 import { httpServer } from './protocol/httpServerApi';
 import { simpleProtServer } from './protocol/simple_prot';
+import { addRoute, createRouter, routerHandler, textResponse } from './protocol/router';
+import { readerFromMemory } from './protocol/readers';
+import { Headers } from './protocol/headers';
+import { serveStatic } from './protocol/staticFiles';
+import { compression } from './protocol/compression';
+import { multipartNext, parseMultipart } from './protocol/bodyParsers';
+import { streamResponse } from './protocol/responseWriter';
+import { connectTunnel } from './protocol/tunnel';
+import { sseResponse, sseSend } from './protocol/sse';
+import { sessions } from './protocol/session';
+import { acceptWebSocket, wsRecv, wsSend } from './protocol/websocket';
+import { catchErrors, compose, defaultHeaders, requestLogger } from './protocol/middleware';
+import { BodyReader, HTTPReq, HTTPRes } from './echo/types';
+import { customLog } from './utils';
+import { flushLogs } from './logger';
 
+const router = createRouter();
+
+async function hello(req: HTTPReq, body: BodyReader): Promise<HTTPRes> {
+	return {
+		code: 200,
+		headers: new Headers(),
+		body: readerFromMemory(Buffer.from("Hello From Nazarick\n")),
+	};
+}
+
+async function echo(req: HTTPReq, body: BodyReader): Promise<HTTPRes> {
+	return {
+		code: 200,
+		headers: new Headers(),
+		body: body,
+	};
+}
+
+addRoute(router, "GET", "/", hello);
+addRoute(router, "POST", "/echo", echo);
+addRoute(router, "PUT", "/echo", echo);
+addRoute(router, "GET", "/ws", async (req: HTTPReq) => acceptWebSocket(req, async (ws) => {
+	while (true) {
+		const msg = await wsRecv(ws);
+		if (!msg) {
+			break;
+		}
+		await wsSend(ws, msg.type === "text" ? msg.data.toString("utf8") : msg.data);
+	}
+}));
+addRoute(router, "GET", "/count", async () => streamResponse(async (res) => {
+	res.writeHead(200, new Headers([["Content-Type", "text/plain"]]));
+	for (let i = 1; i <= 5; i++) {
+		await res.write(`${i}\n`);
+		await new Promise((resolve) => setTimeout(resolve, 100));
+	}
+	await res.end("done\n");
+}));
+addRoute(router, "GET", "/events", async (req: HTTPReq) => sseResponse(req, async (stream) => {
+	// a reconnecting client resumes after the last tick it received
+	let tick = parseInt(stream.lastEventId || "0", 10) || 0;
+	while (!stream.closed) {
+		tick++;
+		await sseSend(stream, { id: String(tick), event: "tick", data: `tick ${tick}` });
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+	}
+}, { retry: 3000 }));
+addRoute(router, "GET", "/visits", async (req: HTTPReq) => {
+	const session = req.session!;
+	const visits = (typeof session.data.visits === "number" ? session.data.visits : 0) + 1;
+	session.data.visits = visits;
+	return textResponse(200, `visit ${visits}\n`);
+});
+addRoute(router, "GET", "/static/*", serveStatic("public", { listing: true }));
+addRoute(router, "POST", "/upload", async (req: HTTPReq, body: BodyReader) => {
+	// the parts are streamed, only their sizes are kept
+	const form = parseMultipart(req, body, { maxPartSize: 100 * 1024 * 1024 });
+	const lines: string[] = [];
+	let part;
+	while ((part = await multipartNext(form))) {
+		let size = 0;
+		let data;
+		while ((data = await part.body.read()).length > 0) {
+			size += data.length;
+		}
+		lines.push(`${part.name} ${part.filename || "-"} ${size}\n`);
+	}
+	return textResponse(200, lines.join(""));
+});
 
 // simpleProtServer(8080, "127.0.0.1");
-httpServer(8080, "127.0.0.1");
\ No newline at end of file
+const server = httpServer(8080, "127.0.0.1", compose([
+	requestLogger(),
+	defaultHeaders({ Server: "Nazarick" }),
+	catchErrors(),
+	// a forward proxy to the local services only
+	connectTunnel({ allow: ["127.0.0.1:*", "localhost:*"] }),
+	// without a configured secret, the sessions do not survive a restart
+	sessions({ secret: process.env.SESSION_SECRET || crypto.randomBytes(32).toString("hex") }),
+	compression(),
+], routerHandler(router)));
+
+async function shutdown(signal: string): Promise<void> {
+	customLog(`received ${signal}, shutting down`);
+	await server.closeForcefully(10 * 1000);
+	await flushLogs();
+	process.exit(0);
+}
+
+process.once("SIGINT", () => shutdown("SIGINT"));
+process.once("SIGTERM", () => shutdown("SIGTERM"));
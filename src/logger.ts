@@ -0,0 +1,250 @@
+/**
+ * This file contains the structured logger of the server.
+ * Records are filtered by level, formatted as text or JSON and handed to the
+ * configured sinks, which write them without blocking the event loop. The context
+ * of the current connection and request is attached automatically.
+ *
+ * @module logger
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+
+export enum LogLevel {
+	DEBUG,
+	INFO,
+	WARN,
+	ERROR,
+}
+
+export type LogContext = { [key: string]: string | number };
+
+export type LogRecord = {
+	time: Date,
+	level: LogLevel,
+	msg: string,
+	context: LogContext,
+};
+
+export type LogSink = {
+	write: (line: string, record: LogRecord) => void,
+	// resolves once the lines written so far are persisted
+	flush: () => Promise<void>,
+};
+
+export type LoggerOptions = {
+	// records below this level are dropped
+	level?: LogLevel,
+	format?: "text" | "json",
+	sinks?: LogSink[],
+};
+
+export type FileSinkOptions = {
+	// the file is rotated once it grows bigger than this
+	maxSize?: number,
+	// the file is rotated once it is older than this, in milliseconds
+	maxAge?: number,
+	// delay before the buffered lines are written, in milliseconds
+	flushInterval?: number,
+};
+
+type Logger = {
+	level: LogLevel,
+	format: "text" | "json",
+	sinks: LogSink[],
+};
+
+const logger: Logger = {
+	level: LogLevel.INFO,
+	format: "text",
+	sinks: [fileSink("logs/log.txt")],
+};
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// write what is still buffered once there is nothing else to do
+process.on("beforeExit", () => {
+	flushLogs();
+});
+
+/**
+ * Configures the logger. The options not given are left unchanged.
+ * @param options - The options of the logger.
+ */
+export function configureLogger(options: LoggerOptions): void {
+	if (options.level !== undefined) {
+		logger.level = options.level;
+	}
+	if (options.format !== undefined) {
+		logger.format = options.format;
+	}
+	if (options.sinks !== undefined) {
+		logger.sinks = options.sinks;
+	}
+}
+
+/**
+ * Logs a message with the context of the current connection and request.
+ * @param level - The level of the message.
+ * @param msg - The message, or a function building it, only called when the
+ * level is not filtered out.
+ */
+export function log(level: LogLevel, msg: string | (() => string)): void {
+	if (level < logger.level) {
+		return;
+	}
+	const record: LogRecord = {
+		time: new Date(),
+		level: level,
+		msg: typeof msg === "function" ? msg() : msg,
+		context: contextStorage.getStore() || {},
+	};
+	const line = logger.format === "json" ? formatJSON(record) : formatText(record);
+	for (const sink of logger.sinks) {
+		sink.write(line, record);
+	}
+}
+
+/**
+ * Runs a function with fields added to the context of the logged records.
+ * The context is inherited by everything the function calls, including the
+ * asynchronous callbacks.
+ * @param context - The fields to add to the current context.
+ * @param fn - The function to run.
+ * @returns The value returned by the function.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+	const parent = contextStorage.getStore() || {};
+	return contextStorage.run({ ...parent, ...context }, fn);
+}
+
+/**
+ * Waits until the records logged so far are written by every sink.
+ */
+export async function flushLogs(): Promise<void> {
+	await Promise.all(logger.sinks.map((sink) => sink.flush()));
+}
+
+function formatText(record: LogRecord): string {
+	const ctx = Object.keys(record.context)
+		.map((k) => `${k}=${record.context[k]}`)
+		.join(" ");
+	return `${record.time.toISOString()} ${LogLevel[record.level]}: ${record.msg}${ctx ? ` [${ctx}]` : ""}\n`;
+}
+
+function formatJSON(record: LogRecord): string {
+	return JSON.stringify({
+		time: record.time.toISOString(),
+		level: LogLevel[record.level],
+		msg: record.msg,
+		...record.context,
+	}) + "\n";
+}
+
+/**
+ * Creates a sink writing to the standard output.
+ * @returns The sink.
+ */
+export function stdoutSink(): LogSink {
+	return {
+		write: (line) => {
+			process.stdout.write(line);
+		},
+		flush: () => new Promise<void>((resolve) => {
+			// the callback is called once the pending writes are done
+			process.stdout.write("", () => resolve());
+		}),
+	};
+}
+
+/**
+ * Creates a sink keeping the records in memory, for the tests.
+ * @param records - The array the records are appended to.
+ * @returns The sink.
+ */
+export function memorySink(records: LogRecord[]): LogSink {
+	return {
+		write: (line, record) => {
+			records.push(record);
+		},
+		flush: async () => {},
+	};
+}
+
+/**
+ * Creates a sink appending to a file. The lines are buffered and written
+ * asynchronously, and the file is rotated by size or age: the current file is
+ * renamed with a timestamp suffix and a new one is started.
+ * @param file - The path of the log file, its directory is created if needed.
+ * @param options - The options of the sink.
+ * @returns The sink.
+ */
+export function fileSink(file: string, options: FileSinkOptions = {}): LogSink {
+	const maxSize = options.maxSize || 10 * 1024 * 1024;
+	const maxAge = options.maxAge || 0;
+	const flushInterval = options.flushInterval === undefined ? 100 : options.flushInterval;
+
+	let pending: string[] = [];
+	let timer: NodeJS.Timeout | null = null;
+	let writing: Promise<void> = Promise.resolve();
+	let size = -1; // unknown until the file is opened
+	let openedAt = 0;
+
+	async function rotateIfNeeded(incoming: number): Promise<void> {
+		if (size < 0) {
+			await fs.promises.mkdir(path.dirname(file), { recursive: true });
+			try {
+				const stat = await fs.promises.stat(file);
+				size = stat.size;
+				openedAt = stat.birthtimeMs || stat.ctimeMs;
+			} catch (error) {
+				size = 0;
+				openedAt = Date.now();
+			}
+		}
+		const tooBig = size > 0 && size + incoming > maxSize;
+		const tooOld = maxAge > 0 && size > 0 && Date.now() - openedAt > maxAge;
+		if (tooBig || tooOld) {
+			const suffix = new Date().toISOString().replace(/[:.]/g, "-");
+			await fs.promises.rename(file, `${file}.${suffix}`);
+			size = 0;
+			openedAt = Date.now();
+		}
+	}
+
+	function writePending(): Promise<void> {
+		timer = null;
+		const data = pending.join("");
+		pending = [];
+		writing = writing.then(async () => {
+			if (data.length === 0) {
+				return;
+			}
+			try {
+				await rotateIfNeeded(Buffer.byteLength(data));
+				await fs.promises.appendFile(file, data);
+				size += Buffer.byteLength(data);
+			} catch (error) {
+				console.error(error);
+			}
+		});
+		return writing;
+	}
+
+	return {
+		write: (line) => {
+			pending.push(line);
+			if (!timer) {
+				timer = setTimeout(writePending, flushInterval);
+				// a pending write does not keep the process alive
+				timer.unref();
+			}
+		},
+		flush: () => {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			return writePending();
+		},
+	};
+}
@@ -0,0 +1,357 @@
+/**
+ * This file contains the opt-in parsers of the request bodies.
+ * A handler calls the parser matching the body it expects: JSON and urlencoded
+ * bodies are read whole within a size limit, while multipart/form-data bodies
+ * are streamed part by part, each part having its own `BodyReader`.
+ *
+ * @module bodyParsers
+ */
+import {
+	BodyReader,
+	DynBuf,
+	FormPart,
+	HTTPError,
+	HTTPReq,
+	MultipartForm,
+	QueryParams,
+} from "../echo/types";
+import { bufPop, bufPush } from "./dynamicBuffer";
+import { Headers } from "./headers";
+import { parseQuery } from "./requestTarget";
+
+const kDefaultJSONLimit = 1024 * 1024;
+const kDefaultFormLimit = 64 * 1024;
+const kDefaultMaxParts = 100;
+const kDefaultMaxPartHeaderSize = 8 * 1024;
+
+export type BodyLimitOptions = {
+	// bodies bigger than this are rejected with 413
+	limit?: number,
+};
+
+export type MultipartOptions = {
+	// more parts than this are rejected with 413
+	maxParts?: number,
+	// size of the header block of a part
+	maxHeaderSize?: number,
+	// size of the content of a single part, unlimited by default
+	maxPartSize?: number,
+};
+
+type MediaType = {
+	type: string,
+	params: { [name: string]: string },
+};
+
+/**
+ * Reads a whole body into memory.
+ * @param body - The reader of the body.
+ * @param limit - The maximum size of the body.
+ * @returns The body.
+ * @throws {HTTPError} 413 if the body is bigger than the limit.
+ */
+export async function bufferBody(body: BodyReader, limit: number): Promise<Buffer> {
+	if (body.length > limit) {
+		throw new HTTPError(413, "Payload too large");
+	}
+	const chunks: Buffer[] = [];
+	let size = 0;
+	while (true) {
+		const data = await body.read();
+		if (data.length === 0) {
+			return Buffer.concat(chunks);
+		}
+		size += data.length;
+		if (size > limit) {
+			throw new HTTPError(413, "Payload too large");
+		}
+		chunks.push(data);
+	}
+}
+
+/**
+ * Reads and parses a JSON body. The media type must be `application/json` or
+ * end with `+json`.
+ * @param req - The HTTP request.
+ * @param body - The reader of the body.
+ * @param options - The options of the parser, the limit defaults to 1 MiB.
+ * @returns The parsed value.
+ * @throws {HTTPError} 415 for another media type, 413 if the body is too big,
+ * or 400 if it is not valid JSON.
+ */
+export async function parseJSON(req: HTTPReq, body: BodyReader, options: BodyLimitOptions = {}): Promise<unknown> {
+	const type = mediaType(req);
+	if (!type || (type.type !== "application/json" && !type.type.endsWith("+json"))) {
+		throw new HTTPError(415, "Expected application/json");
+	}
+	const data = await bufferBody(body, options.limit === undefined ? kDefaultJSONLimit : options.limit);
+	try {
+		return JSON.parse(data.toString("utf8"));
+	} catch (error) {
+		throw new HTTPError(400, `Bad JSON: ${(error as Error).message}`);
+	}
+}
+
+/**
+ * Reads and parses an `application/x-www-form-urlencoded` body.
+ * @param req - The HTTP request.
+ * @param body - The reader of the body.
+ * @param options - The options of the parser, the limit defaults to 64 KiB.
+ * @returns The values of the fields by name.
+ * @throws {HTTPError} 415 for another media type, 413 if the body is too big,
+ * or 400 if it is not correctly percent-encoded.
+ */
+export async function parseUrlencoded(req: HTTPReq, body: BodyReader, options: BodyLimitOptions = {}): Promise<QueryParams> {
+	const type = mediaType(req);
+	if (!type || type.type !== "application/x-www-form-urlencoded") {
+		throw new HTTPError(415, "Expected application/x-www-form-urlencoded");
+	}
+	const data = await bufferBody(body, options.limit === undefined ? kDefaultFormLimit : options.limit);
+	return parseQuery(data.toString("latin1"));
+}
+
+/**
+ * Starts reading a `multipart/form-data` body. The parts are then read one at
+ * a time with `multipartNext`.
+ * @param req - The HTTP request.
+ * @param body - The reader of the body.
+ * @param options - The limits of the parser.
+ * @returns The multipart reader.
+ * @throws {HTTPError} 415 for another media type, or 400 without a valid boundary.
+ */
+export function parseMultipart(req: HTTPReq, body: BodyReader, options: MultipartOptions = {}): MultipartForm {
+	const type = mediaType(req);
+	if (!type || type.type !== "multipart/form-data") {
+		throw new HTTPError(415, "Expected multipart/form-data");
+	}
+	const boundary = type.params["boundary"];
+	if (!boundary || boundary.length > 70) {
+		throw new HTTPError(400, "Bad multipart boundary");
+	}
+	const buf: DynBuf = {
+		data: Buffer.alloc(0),
+		length: 0,
+		begin: 0,
+	};
+	// the first delimiter is not preceded by a line break when there is no preamble
+	bufPush(buf, Buffer.from("\r\n"));
+	return {
+		source: body,
+		buf: buf,
+		delimiter: Buffer.from(`\r\n--${boundary}`, "latin1"),
+		maxParts: options.maxParts || kDefaultMaxParts,
+		maxHeaderSize: options.maxHeaderSize || kDefaultMaxPartHeaderSize,
+		maxPartSize: options.maxPartSize || Infinity,
+		current: null,
+		parts: 0,
+		done: false,
+	};
+}
+
+/**
+ * Reads the headers of the next part. What is left unread of the previous
+ * part is skipped.
+ * @param form - The multipart reader.
+ * @returns The part, or null after the last one.
+ * @throws {HTTPError} 400 if the body is malformed, or 413 if a limit is exceeded.
+ */
+export async function multipartNext(form: MultipartForm): Promise<FormPart | null> {
+	if (form.current) {
+		while ((await form.current.body.read()).length > 0) {
+			// skip the rest of the part
+		}
+		form.current = null;
+	}
+	if (form.done) {
+		return null;
+	}
+
+	// skip the preamble or the end of the previous part, up to the delimiter
+	while (true) {
+		const idx = bufView(form.buf).indexOf(form.delimiter);
+		if (idx >= 0) {
+			bufPop(form.buf, idx + form.delimiter.length);
+			break;
+		}
+		bufPop(form.buf, Math.max(form.buf.length - form.delimiter.length + 1, 0));
+		await readMore(form);
+	}
+
+	while (form.buf.length < 2) {
+		await readMore(form);
+	}
+	if (bufView(form.buf).subarray(0, 2).toString("latin1") === "--") {
+		// the close delimiter, the epilogue is ignored
+		form.done = true;
+		return null;
+	}
+
+	// the delimiter line can end with spaces
+	const eol = await findInBuf(form, Buffer.from("\r\n"), form.maxHeaderSize);
+	if (!/^[ \t]*$/.test(bufView(form.buf).subarray(0, eol).toString("latin1"))) {
+		throw new HTTPError(400, "Bad multipart delimiter");
+	}
+	bufPop(form.buf, eol + 2);
+
+	form.parts++;
+	if (form.parts > form.maxParts) {
+		throw new HTTPError(413, "Too many parts");
+	}
+
+	const headers = await readPartHeaders(form);
+	const disposition = parseParams(headers.get("Content-Disposition") || "");
+	const name = disposition.params["name"];
+	if (disposition.type !== "form-data" || name === undefined) {
+		throw new HTTPError(400, "Bad Content-Disposition");
+	}
+	form.current = {
+		name: name,
+		filename: partFilename(disposition.params),
+		contentType: headers.get("Content-Type") || "text/plain",
+		headers: headers,
+		body: readerFromPart(form),
+	};
+	return form.current;
+}
+
+/**
+ * Reads the header block of a part, up to and including the empty line.
+ */
+async function readPartHeaders(form: MultipartForm): Promise<Headers> {
+	while (form.buf.length < 2) {
+		await readMore(form);
+	}
+	if (bufView(form.buf).subarray(0, 2).toString("latin1") === "\r\n") {
+		bufPop(form.buf, 2);
+		return new Headers();
+	}
+	const idx = await findInBuf(form, Buffer.from("\r\n\r\n"), form.maxHeaderSize);
+	const block = Buffer.from(bufView(form.buf).subarray(0, idx));
+	bufPop(form.buf, idx + 4);
+
+	const lines: Buffer[] = [];
+	let start = 0;
+	while (start <= block.length) {
+		const end = block.indexOf("\r\n", start);
+		lines.push(block.subarray(start, end < 0 ? block.length : end));
+		start = end < 0 ? block.length + 1 : end + 2;
+	}
+	try {
+		return Headers.fromLines(lines);
+	} catch (error) {
+		throw new HTTPError(400, "Bad part header");
+	}
+}
+
+/**
+ * Creates a `BodyReader` returning the content of the current part. It stops
+ * before the next delimiter, which is left in the buffer.
+ */
+function readerFromPart(form: MultipartForm): BodyReader {
+	let ended = false;
+	let size = 0;
+	return {
+		length: -1,
+		read: async (): Promise<Buffer> => {
+			while (!ended) {
+				const data = bufView(form.buf);
+				const idx = data.indexOf(form.delimiter);
+				if (idx === 0) {
+					ended = true;
+					break;
+				}
+				// the tail of the buffer may be the beginning of the delimiter
+				const count = idx > 0 ? idx : data.length - form.delimiter.length + 1;
+				if (count > 0) {
+					size += count;
+					if (size > form.maxPartSize) {
+						throw new HTTPError(413, "Part too large");
+					}
+					const chunk = Buffer.from(data.subarray(0, count));
+					bufPop(form.buf, count);
+					return chunk;
+				}
+				await readMore(form);
+			}
+			return Buffer.from("");
+		},
+	};
+}
+
+/**
+ * Returns the position of a pattern in the buffer, reading more data as needed.
+ * @throws {HTTPError} 413 if the pattern is not found within the limit.
+ */
+async function findInBuf(form: MultipartForm, pattern: Buffer, limit: number): Promise<number> {
+	while (true) {
+		const idx = bufView(form.buf).indexOf(pattern);
+		if (idx >= 0) {
+			return idx;
+		}
+		if (form.buf.length > limit) {
+			throw new HTTPError(413, "Part headers too large");
+		}
+		await readMore(form);
+	}
+}
+
+async function readMore(form: MultipartForm): Promise<void> {
+	const data = await form.source.read();
+	if (data.length === 0) {
+		throw new HTTPError(400, "Unexpected end of multipart body");
+	}
+	bufPush(form.buf, data);
+}
+
+function bufView(buf: DynBuf): Buffer {
+	return buf.data.subarray(buf.begin, buf.begin + buf.length);
+}
+
+function mediaType(req: HTTPReq): MediaType | null {
+	const value = req.headers.get("Content-Type");
+	return value === null ? null : parseParams(value);
+}
+
+/**
+ * Parses a value with parameters, like a media type or a `Content-Disposition`:
+ * `type; name=value; name="quoted value"`. The type and the parameter names are
+ * lower-cased.
+ */
+function parseParams(value: string): MediaType {
+	const semi = value.indexOf(";");
+	const result: MediaType = {
+		type: (semi < 0 ? value : value.slice(0, semi)).trim().toLowerCase(),
+		params: Object.create(null),
+	};
+	const rest = semi < 0 ? "" : value.slice(semi);
+	const re = /;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(rest)) !== null) {
+		let v = m[2].trim();
+		if (v.startsWith("\"")) {
+			v = v.slice(1, -1).replace(/\\(.)/g, "$1");
+		}
+		result.params[m[1].toLowerCase()] = v;
+	}
+	return result;
+}
+
+/**
+ * Returns the file name of a part, without the directories some clients send.
+ * The UTF-8 `filename*` parameter takes precedence.
+ */
+function partFilename(params: { [name: string]: string }): string | null {
+	let filename: string | undefined = params["filename"];
+	const extended = /^utf-8'[^']*'(.*)$/i.exec(params["filename*"] || "");
+	if (extended) {
+		try {
+			filename = decodeURIComponent(extended[1]);
+		} catch (error) {
+			// keep the plain parameter
+		}
+	}
+	if (filename === undefined) {
+		return null;
+	}
+	return filename.slice(Math.max(filename.lastIndexOf("/"), filename.lastIndexOf("\\")) + 1);
+}
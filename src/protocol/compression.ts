@@ -0,0 +1,237 @@
+/**
+ * This file contains the response compression middleware.
+ * The encoding is negotiated from the `Accept-Encoding` header of the request and
+ * the response body is compressed on the fly, so the compressed length is unknown
+ * and the response is sent chunked.
+ *
+ * @module compression
+ */
+import * as zlib from "zlib";
+import { BodyReader, HTTPReq, HTTPRes, Middleware } from "../echo/types";
+
+// in order of preference when the client accepts several with the same quality
+const kEncodings = ["br", "gzip", "deflate"];
+// content types that are already compressed
+const kCompressedTypes = [
+	/^image\/(?!svg\+xml)/,
+	/^audio\//,
+	/^video\//,
+	/^font\/woff2?$/,
+	/^application\/(zip|gzip|x-gzip|x-bzip2|x-7z-compressed|x-rar-compressed|pdf|wasm|octet-stream)$/,
+	/^multipart\/byteranges$/,
+];
+
+export type CompressionOptions = {
+	// bodies smaller than this are sent raw, a body of unknown length is always compressed
+	threshold?: number,
+	// compression level of gzip and deflate
+	level?: number,
+};
+
+/**
+ * Creates a middleware compressing the response bodies with gzip, deflate or brotli.
+ * @param options - The options of the compression.
+ * @returns The middleware.
+ */
+export function compression(options: CompressionOptions = {}): Middleware {
+	const threshold = options.threshold === undefined ? 1024 : options.threshold;
+	const level = options.level === undefined ? zlib.constants.Z_DEFAULT_COMPRESSION : options.level;
+
+	return async (req, body, next) => {
+		const res = await next(req, body);
+		if (res.code === 304) {
+			notModifiedETag(req, res);
+			return res;
+		}
+		if (!compressible(req, res)) {
+			return res;
+		}
+		// the response depends on Accept-Encoding even when it is sent raw
+		addVary(res);
+
+		if (res.body.length >= 0 && res.body.length < threshold) {
+			return res;
+		}
+		const accept = req.headers.get("Accept-Encoding");
+		const encoding = accept !== null ? negotiateEncoding(accept) : null;
+		if (!encoding) {
+			return res;
+		}
+
+		const etag = res.headers.get("ETag");
+		res.headers.delete("Content-Length");
+		if (etag !== null) {
+			// the compressed representation has its own entity tag
+			res.headers.set("ETag", etag.replace(/"$/, `-${encoding}"`));
+		}
+		res.headers.set("Content-Encoding", encoding);
+		res.body = readerFromCompressor(res.body, createCompressor(encoding, level), encoding);
+		return res;
+	};
+}
+
+/**
+ * Picks the preferred supported encoding from an `Accept-Encoding` value.
+ * @param accept - The value of the `Accept-Encoding` header.
+ * @returns The encoding, or null if the body must be sent raw.
+ */
+export function negotiateEncoding(accept: string): string | null {
+	const qualities: { [coding: string]: number } = {};
+	for (const item of accept.split(",")) {
+		const [coding, ...params] = item.split(";").map((s) => s.trim().toLowerCase());
+		if (coding.length === 0) {
+			continue;
+		}
+		let q = 1;
+		for (const p of params) {
+			const m = /^q=([0-9.]+)$/.exec(p);
+			if (m) {
+				q = parseFloat(m[1]);
+			}
+		}
+		qualities[coding] = isNaN(q) ? 0 : q;
+	}
+
+	let best: string | null = null;
+	let bestQ = 0;
+	for (const encoding of kEncodings) {
+		const q = encoding in qualities ? qualities[encoding] : qualities["*"] || 0;
+		if (q > bestQ) {
+			best = encoding;
+			bestQ = q;
+		}
+	}
+	return best;
+}
+
+/**
+ * Returns the entity tag of the uncompressed representation, without the
+ * suffix of the encoding added by this middleware.
+ * @param tag - The entity tag, possibly weak.
+ * @returns The entity tag as set by the handler.
+ */
+export function baseETag(tag: string): string {
+	return tag.replace(new RegExp(`-(${kEncodings.join("|")})"$`), "\"");
+}
+
+/**
+ * Gives a 304 response the tag of the compressed representation the client
+ * validated, since the handler only knows the tag of the raw one.
+ */
+function notModifiedETag(req: HTTPReq, res: HTTPRes): void {
+	const etag = res.headers.get("ETag");
+	if (etag === null) {
+		return;
+	}
+	const match = req.headers.getList("If-None-Match").find((t) => t !== etag && baseETag(t) === etag);
+	if (match !== undefined) {
+		res.headers.set("ETag", match);
+		addVary(res);
+	}
+}
+
+/**
+ * Checks whether a response can be compressed at all.
+ */
+function compressible(req: HTTPReq, res: HTTPRes): boolean {
+	// HEAD is compressed too, its headers must be those of the GET response
+	if (res.code < 200 || res.code === 204 || res.code === 206 || res.code === 304) {
+		return false;
+	}
+	if (res.headers.has("Content-Encoding")) {
+		return false;
+	}
+	const contentType = res.headers.get("Content-Type");
+	if (contentType === null) {
+		return true;
+	}
+	const type = contentType.split(";")[0].trim().toLowerCase();
+	return !kCompressedTypes.some((re) => re.test(type));
+}
+
+function addVary(res: HTTPRes): void {
+	if (!res.headers.hasToken("Vary", "Accept-Encoding") && !res.headers.hasToken("Vary", "*")) {
+		res.headers.append("Vary", "Accept-Encoding");
+	}
+}
+
+function createCompressor(encoding: string, level: number): zlib.Gzip | zlib.Deflate | zlib.BrotliCompress {
+	switch (encoding) {
+		case "br":
+			return zlib.createBrotliCompress();
+		case "gzip":
+			return zlib.createGzip({ level: level });
+		default:
+			return zlib.createDeflate({ level: level });
+	}
+}
+
+/**
+ * Creates a `BodyReader` compressing the data of another reader.
+ * The compressor is flushed after each piece of data, so a slow or never-ending
+ * body is still delivered to the client as it is produced.
+ * @param source - The reader of the raw body.
+ * @param comp - The zlib compressor.
+ * @param encoding - The name of the encoding.
+ * @returns A `BodyReader` of unknown length.
+ */
+function readerFromCompressor(
+	source: BodyReader,
+	comp: zlib.Gzip | zlib.Deflate | zlib.BrotliCompress,
+	encoding: string
+): BodyReader {
+	const output: Buffer[] = [];
+	let finished = false;
+	let err: Error | null = null;
+	comp.on("data", (data: Buffer) => output.push(data));
+	comp.on("error", (e: Error) => {
+		err = e;
+	});
+
+	const flushKind = encoding === "br"
+		? zlib.constants.BROTLI_OPERATION_FLUSH
+		: zlib.constants.Z_SYNC_FLUSH;
+
+	return {
+		length: -1,
+		read: async (): Promise<Buffer> => {
+			while (true) {
+				if (err) {
+					throw err;
+				}
+				if (output.length > 0) {
+					return output.length === 1 ? output.shift()! : Buffer.concat(output.splice(0));
+				}
+				if (finished) {
+					return Buffer.from("");
+				}
+
+				const data = await source.read();
+				if (data.length === 0) {
+					await new Promise<void>((resolve, reject) => {
+						comp.once("end", resolve);
+						comp.once("error", reject);
+						comp.end();
+					});
+					finished = true;
+				} else {
+					await new Promise<void>((resolve, reject) => {
+						const onError = (e: Error) => reject(e);
+						comp.once("error", onError);
+						comp.write(data);
+						comp.flush(flushKind, () => {
+							comp.removeListener("error", onError);
+							resolve();
+						});
+					});
+				}
+			}
+		},
+		close: async (): Promise<void> => {
+			comp.destroy();
+			if (source.close) {
+				await source.close();
+			}
+		},
+	};
+}
@@ -0,0 +1,171 @@
+/**
+ * This file contains the cookies (RFC 6265).
+ * The `Cookie` header of every request is parsed into `req.cookies` by the
+ * server, and the handlers add cookies to their responses with `setCookie`.
+ * A cookie value can be signed with an HMAC so that the client cannot forge it,
+ * which the sessions rely on.
+ *
+ * @module cookies
+ */
+import * as crypto from "crypto";
+import { HTTPRes } from "../echo/types";
+import { isToken } from "./headers";
+
+export type CookieOptions = {
+	expires?: Date,
+	// lifetime in seconds, takes precedence over expires for the clients
+	maxAge?: number,
+	domain?: string,
+	path?: string,
+	secure?: boolean,
+	httpOnly?: boolean,
+	sameSite?: "Strict" | "Lax" | "None",
+};
+
+/**
+ * Parses the value of a `Cookie` header. The values are percent-decoded when
+ * possible and the surrounding quotes are removed; the first of several cookies
+ * with the same name wins, being the one with the most specific path.
+ * @param value - The value of the header, null if absent.
+ * @returns The values of the cookies by name.
+ */
+export function parseCookies(value: string | null): { [name: string]: string } {
+	const cookies: { [name: string]: string } = Object.create(null);
+	if (value === null) {
+		return cookies;
+	}
+	for (const pair of value.split(";")) {
+		const idx = pair.indexOf("=");
+		if (idx < 0) {
+			continue;
+		}
+		const name = pair.slice(0, idx).trim();
+		let v = pair.slice(idx + 1).trim();
+		if (!isToken(name) || name in cookies) {
+			continue;
+		}
+		if (v.length >= 2 && v.startsWith("\"") && v.endsWith("\"")) {
+			v = v.slice(1, -1);
+		}
+		try {
+			v = decodeURIComponent(v);
+		} catch (error) {
+			// keep the raw value
+		}
+		cookies[name] = v;
+	}
+	return cookies;
+}
+
+/**
+ * Serializes a cookie into the value of a `Set-Cookie` header. The value is
+ * percent-encoded.
+ * @param name - The name of the cookie.
+ * @param value - The value of the cookie.
+ * @param options - The attributes of the cookie.
+ * @returns The value of the header.
+ * @throws {Error} If the name or an attribute is not valid, or if `SameSite=None`
+ * is used without `Secure`, which the browsers reject.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+	if (!isToken(name)) {
+		throw new Error(`Invalid cookie name "${name}"`);
+	}
+	let cookie = `${name}=${encodeURIComponent(value)}`;
+	if (options.expires !== undefined) {
+		cookie += `; Expires=${options.expires.toUTCString()}`;
+	}
+	if (options.maxAge !== undefined) {
+		cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+	}
+	if (options.domain !== undefined) {
+		cookie += `; Domain=${attributeValue("Domain", options.domain)}`;
+	}
+	if (options.path !== undefined) {
+		cookie += `; Path=${attributeValue("Path", options.path)}`;
+	}
+	if (options.secure) {
+		cookie += "; Secure";
+	}
+	if (options.httpOnly) {
+		cookie += "; HttpOnly";
+	}
+	if (options.sameSite !== undefined) {
+		if (options.sameSite === "None" && !options.secure) {
+			throw new Error("SameSite=None requires Secure");
+		}
+		cookie += `; SameSite=${options.sameSite}`;
+	}
+	return cookie;
+}
+
+/**
+ * Adds a cookie to a response.
+ * @param res - The HTTP response.
+ * @param name - The name of the cookie.
+ * @param value - The value of the cookie.
+ * @param options - The attributes of the cookie.
+ * @throws {Error} If the cookie is not valid, see `serializeCookie`.
+ */
+export function setCookie(res: HTTPRes, name: string, value: string, options: CookieOptions = {}): void {
+	res.headers.append("Set-Cookie", serializeCookie(name, value, options));
+}
+
+/**
+ * Asks the client to delete a cookie. The domain and the path must be the ones
+ * the cookie was set with.
+ * @param res - The HTTP response.
+ * @param name - The name of the cookie.
+ * @param options - The attributes the cookie was set with.
+ */
+export function clearCookie(res: HTTPRes, name: string, options: CookieOptions = {}): void {
+	setCookie(res, name, "", { ...options, expires: new Date(0), maxAge: 0 });
+}
+
+/**
+ * Signs a cookie value with HMAC-SHA256.
+ * @param value - The value to sign.
+ * @param secret - The secret key.
+ * @returns The value followed by a dot and the signature.
+ */
+export function signCookie(value: string, secret: string): string {
+	return `${value}.${signature(value, secret)}`;
+}
+
+/**
+ * Verifies a signed cookie value. Several secrets can be given to rotate the
+ * key: the values signed with any of them are accepted.
+ * @param signed - The signed value, as returned by `signCookie`.
+ * @param secrets - The secret key, or the keys in use.
+ * @returns The original value, or null if the signature does not match.
+ */
+export function unsignCookie(signed: string, secrets: string | string[]): string | null {
+	const idx = signed.lastIndexOf(".");
+	if (idx < 0) {
+		return null;
+	}
+	const value = signed.slice(0, idx);
+	const mac = Buffer.from(signed.slice(idx + 1));
+	for (const secret of typeof secrets === "string" ? [secrets] : secrets) {
+		const expected = Buffer.from(signature(value, secret));
+		// the comparison takes the same time wherever the signatures differ
+		if (mac.length === expected.length && crypto.timingSafeEqual(mac, expected)) {
+			return value;
+		}
+	}
+	return null;
+}
+
+function signature(value: string, secret: string): string {
+	return crypto.createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+/**
+ * Checks that an attribute value cannot end the attribute or the header.
+ */
+function attributeValue(name: string, value: string): string {
+	if (/[;\x00-\x1f\x7f]/.test(value)) {
+		throw new Error(`Invalid cookie ${name} "${value}"`);
+	}
+	return value;
+}
@@ -0,0 +1,242 @@
+/**
+ * This file contains the `Headers` class holding the header fields of the
+ * requests and responses.
+ * Names are case-insensitive and a field can appear several times; the values
+ * are stored with the surrounding whitespace trimmed.
+ *
+ * @module headers
+ */
+
+// fields whose values cannot be combined in a single comma-separated line
+const kNoCombine = ["set-cookie"];
+
+export class Headers {
+	// name as given, value
+	private fields: Array<[string, string]> = [];
+
+	/**
+	 * Creates a header list.
+	 * @param init - The initial fields, as name and value pairs or as an object.
+	 */
+	constructor(init?: Array<[string, string]> | { [name: string]: string }) {
+		if (Array.isArray(init)) {
+			for (const [name, value] of init) {
+				this.append(name, value);
+			}
+		} else if (init) {
+			for (const name of Object.keys(init)) {
+				this.append(name, init[name]);
+			}
+		}
+	}
+
+	/**
+	 * Parses raw header lines of the form `Name: value`.
+	 * The value is everything after the first colon, without the optional whitespace.
+	 * @param lines - The header lines, without the CRLF.
+	 * @returns The header list.
+	 * @throws {Error} If a line has no colon.
+	 */
+	static fromLines(lines: Buffer[]): Headers {
+		const headers = new Headers();
+		for (const line of lines) {
+			const idx = line.indexOf(":");
+			if (idx <= 0) {
+				throw new Error("Malformed header line");
+			}
+			headers.fields.push([
+				line.subarray(0, idx).toString("latin1"),
+				trimOWS(line.subarray(idx + 1).toString("latin1")),
+			]);
+		}
+		return headers;
+	}
+
+	/**
+	 * Returns the value of a field. The values of a repeated field are joined
+	 * with a comma, except for `Set-Cookie` whose first value is returned.
+	 * @param name - The case-insensitive name of the field.
+	 * @returns The value, or null if the field is absent.
+	 */
+	get(name: string): string | null {
+		const values = this.getAll(name);
+		if (values.length === 0) {
+			return null;
+		}
+		if (kNoCombine.includes(name.toLowerCase())) {
+			return values[0];
+		}
+		return values.join(", ");
+	}
+
+	/**
+	 * Returns every value of a field, in order.
+	 * @param name - The case-insensitive name of the field.
+	 * @returns The values, empty if the field is absent.
+	 */
+	getAll(name: string): string[] {
+		const key = name.toLowerCase();
+		return this.fields.filter(([n]) => n.toLowerCase() === key).map(([, v]) => v);
+	}
+
+	/**
+	 * Returns the value of a field holding a non-negative decimal integer.
+	 * @param name - The case-insensitive name of the field.
+	 * @returns The number, null if the field is absent, or NaN if the value is
+	 * not a number or the field is repeated with different values.
+	 */
+	getInt(name: string): number | null {
+		const values = this.getList(name);
+		if (values.length === 0 && !this.has(name)) {
+			return null;
+		}
+		if (values.length === 0 || values.some((v) => v !== values[0]) || !/^\d+$/.test(values[0])) {
+			return NaN;
+		}
+		const n = parseInt(values[0], 10);
+		return Number.isSafeInteger(n) ? n : NaN;
+	}
+
+	/**
+	 * Returns the elements of a comma-separated list field, across all its lines.
+	 * Commas inside quoted strings do not split the elements, and the empty
+	 * elements are dropped.
+	 * @param name - The case-insensitive name of the field.
+	 * @returns The elements, empty if the field is absent.
+	 */
+	getList(name: string): string[] {
+		const items: string[] = [];
+		for (const value of this.getAll(name)) {
+			for (const item of splitList(value)) {
+				if (item.length > 0) {
+					items.push(item);
+				}
+			}
+		}
+		return items;
+	}
+
+	/**
+	 * Checks whether a list field contains a token, ignoring the case.
+	 * @param name - The case-insensitive name of the field.
+	 * @param token - The token to look for.
+	 * @returns Whether the token is in the list.
+	 */
+	hasToken(name: string, token: string): boolean {
+		const t = token.toLowerCase();
+		return this.getList(name).some((item) => item.toLowerCase() === t);
+	}
+
+	has(name: string): boolean {
+		const key = name.toLowerCase();
+		return this.fields.some(([n]) => n.toLowerCase() === key);
+	}
+
+	/**
+	 * Sets a field, replacing all its previous values.
+	 * @param name - The name of the field.
+	 * @param value - The value of the field.
+	 * @throws {Error} If the name or the value is not valid.
+	 */
+	set(name: string, value: string | number): void {
+		this.delete(name);
+		this.append(name, value);
+	}
+
+	/**
+	 * Adds a value to a field, keeping its previous values.
+	 * @param name - The name of the field.
+	 * @param value - The value of the field.
+	 * @throws {Error} If the name or the value is not valid.
+	 */
+	append(name: string, value: string | number): void {
+		const v = trimOWS(String(value));
+		if (!isToken(name)) {
+			throw new Error(`Invalid header name "${name}"`);
+		}
+		// a line break would let the value inject other fields
+		if (/[\r\n\0]/.test(v)) {
+			throw new Error(`Invalid value for header "${name}"`);
+		}
+		this.fields.push([name, v]);
+	}
+
+	delete(name: string): void {
+		const key = name.toLowerCase();
+		this.fields = this.fields.filter(([n]) => n.toLowerCase() !== key);
+	}
+
+	/**
+	 * Returns the fields in order, as name and value pairs.
+	 */
+	entries(): Array<[string, string]> {
+		return this.fields.map(([n, v]): [string, string] => [n, v]);
+	}
+
+	/**
+	 * Returns the distinct names of the fields, in the case first given.
+	 */
+	names(): string[] {
+		const seen: string[] = [];
+		const names: string[] = [];
+		for (const [n] of this.fields) {
+			if (!seen.includes(n.toLowerCase())) {
+				seen.push(n.toLowerCase());
+				names.push(n);
+			}
+		}
+		return names;
+	}
+
+	get size(): number {
+		return this.fields.length;
+	}
+
+	/**
+	 * Serializes the fields, one `Name: value\r\n` line per value.
+	 * @returns The header lines.
+	 */
+	encode(): Buffer {
+		return Buffer.from(this.fields.map(([n, v]) => `${n}: ${v}\r\n`).join(""), "latin1");
+	}
+}
+
+/**
+ * Splits a comma-separated list, keeping the quoted strings whole.
+ */
+function splitList(value: string): string[] {
+	const items: string[] = [];
+	let current = "";
+	let quoted = false;
+	for (let i = 0; i < value.length; i++) {
+		const c = value[i];
+		if (quoted && c === "\\" && i + 1 < value.length) {
+			current += c + value[++i];
+			continue;
+		}
+		if (c === "\"") {
+			quoted = !quoted;
+		} else if (c === "," && !quoted) {
+			items.push(trimOWS(current));
+			current = "";
+			continue;
+		}
+		current += c;
+	}
+	items.push(trimOWS(current));
+	return items;
+}
+
+/**
+ * Removes the optional whitespace (spaces and tabs) around a value.
+ */
+function trimOWS(value: string): string {
+	return value.replace(/^[ \t]+|[ \t]+$/g, "");
+}
+
+/**
+ * Checks whether a string is a token, the syntax of the field names.
+ */
+export function isToken(s: string): boolean {
+	return /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(s);
+}
@@ -0,0 +1,466 @@
+/**
+ * This file contains the HTTP/1.1 client.
+ * It runs on the same promise-based TCP layer as the server and reuses its body
+ * readers, so a response body is read like a request body: by Content-Length,
+ * chunked, or until the server closes the connection. The keep-alive
+ * connections are kept in a pool by origin once their response is fully read.
+ *
+ * @module httpClient
+ */
+import * as tls from "tls";
+import { Readable } from "stream";
+import { soConnect, soRead, soWrite } from "../echo/promise_based_api_tcp_server";
+import { BaseError, BodyReader, ClientPool, DynBuf, HTTPClientRes, HTTPError, TCPConn, TimeoutError } from "../echo/types";
+import { bufPop, bufPush } from "./dynamicBuffer";
+import { Headers } from "./headers";
+import {
+	encodeChunk,
+	encodeLastChunk,
+	readerFromChunked,
+	readerFromConnLength,
+	validateHeader,
+} from "./httpServerApi";
+import { bodyReader } from "./readers";
+
+const kConnectTimeout = 10 * 1000;
+const kResponseTimeout = 30 * 1000; // time to receive the response head, in ms
+const kMaxResponseHead = 64 * 1024;
+const kMaxIdlePerHost = 8;
+// below the keep-alive timeout of most servers, so that they rarely close first
+const kIdleTimeout = 4000;
+
+export type RequestOptions = {
+	// the pool of the keep-alive connections, null to close every connection
+	pool?: ClientPool | null,
+	connectTimeout?: number,
+	// time to receive the response head, in milliseconds
+	timeout?: number,
+	// time to receive the whole body after the head, unlimited by default
+	bodyTimeout?: number,
+	// used for the https URLs
+	tls?: tls.ConnectionOptions,
+};
+
+export type PoolOptions = {
+	maxIdlePerHost?: number,
+	idleTimeout?: number,
+};
+
+export type RequestBody = BodyReader | Buffer | string | Readable | AsyncIterable<Buffer | string>;
+
+/**
+ * Error raised when the connection ends before any byte of the response.
+ */
+class ConnectionClosedError extends BaseError {}
+
+const defaultPool = createPool();
+
+/**
+ * Creates a pool of keep-alive connections.
+ * @param options - The limits of the pool.
+ * @returns The pool.
+ */
+export function createPool(options: PoolOptions = {}): ClientPool {
+	return {
+		idle: new Map(),
+		maxIdlePerHost: options.maxIdlePerHost === undefined ? kMaxIdlePerHost : options.maxIdlePerHost,
+		idleTimeout: options.idleTimeout || kIdleTimeout,
+	};
+}
+
+/**
+ * Closes the idle connections of a pool. The connections in use are closed when
+ * their response ends instead of being returned to the pool.
+ * @param pool - The pool, the default one if not given.
+ */
+export function closePool(pool: ClientPool = defaultPool): void {
+	pool.idle.forEach((entries) => {
+		for (const entry of entries) {
+			clearTimeout(entry.timer);
+			entry.conn.socket.destroy();
+		}
+	});
+	pool.idle.clear();
+	pool.maxIdlePerHost = 0;
+}
+
+/**
+ * Sends a request and reads the head of the response.
+ * The body of the response must be read to the end or closed; the connection is
+ * then returned to the pool or closed. A request on a pooled connection that
+ * the server has closed meanwhile is sent again on a new connection when its
+ * body can be replayed.
+ * @param method - The method of the request.
+ * @param url - The absolute http or https URL.
+ * @param headers - The header fields; Host and the framing fields are set if absent.
+ * @param body - The body of the request, null for none.
+ * @param options - The options of the request.
+ * @returns The response, with the body still to be read.
+ * @throws {TimeoutError} If the connection or the response head takes too long;
+ * the body reader throws it after the body timeout.
+ * @throws {Error} If the URL is not supported or the response is malformed.
+ */
+export async function httpRequest(
+	method: string,
+	url: string,
+	headers: Headers | { [name: string]: string } = {},
+	body: RequestBody | null = null,
+	options: RequestOptions = {}
+): Promise<HTTPClientRes> {
+	const target = new URL(url);
+	if (target.protocol !== "http:" && target.protocol !== "https:") {
+		throw new Error(`Unsupported protocol ${target.protocol}`);
+	}
+	const secure = target.protocol === "https:";
+	// the brackets of an IPv6 address are not part of the host to connect to
+	const host = target.hostname.replace(/^\[(.*)\]$/, "$1");
+	const port = target.port ? parseInt(target.port, 10) : secure ? 443 : 80;
+	const key = `${target.protocol}//${host}:${port}`;
+	const pool = options.pool === undefined ? defaultPool : options.pool;
+
+	const fields = headers instanceof Headers ? new Headers(headers.entries()) : new Headers(headers);
+	if (!fields.has("Host")) {
+		fields.set("Host", target.host);
+	}
+	if (!pool) {
+		fields.set("Connection", "close");
+	}
+	const replayable = body === null || typeof body === "string" || Buffer.isBuffer(body);
+
+	const connect = (): Promise<TCPConn> => soConnect(port, host, {
+		timeout: options.connectTimeout || kConnectTimeout,
+		tls: secure ? options.tls || {} : undefined,
+	});
+
+	const idle = pool ? takeIdle(pool, key) : null;
+	const conn = idle || await connect();
+	const exchange = {
+		method: method.toUpperCase(),
+		path: target.pathname + target.search,
+		headers: fields,
+		options: options,
+		pool: pool,
+		key: key,
+	};
+	try {
+		return await sendRequest(conn, exchange, body);
+	} catch (error) {
+		conn.socket.destroy();
+		if (!idle || !replayable || !(error instanceof ConnectionClosedError)) {
+			throw error;
+		}
+	}
+
+	const retry = await connect();
+	try {
+		return await sendRequest(retry, exchange, body);
+	} catch (error) {
+		retry.socket.destroy();
+		throw error;
+	}
+}
+
+type Exchange = {
+	method: string,
+	path: string,
+	headers: Headers,
+	options: RequestOptions,
+	pool: ClientPool | null,
+	key: string,
+};
+
+/**
+ * Writes the request on a connection and reads the response head.
+ * @throws {ConnectionClosedError} If the connection is closed before the response.
+ */
+async function sendRequest(conn: TCPConn, ex: Exchange, body: RequestBody | null): Promise<HTTPClientRes> {
+	const reader = body === null ? null : bodyReader(body);
+	const fields = ex.headers;
+	fields.delete("Content-Length");
+	fields.delete("Transfer-Encoding");
+	if (reader && reader.length >= 0) {
+		fields.set("Content-Length", reader.length);
+	} else if (reader) {
+		fields.set("Transfer-Encoding", "chunked");
+	} else if (["POST", "PUT", "PATCH"].includes(ex.method)) {
+		// without a length, the server would wait for a body
+		fields.set("Content-Length", 0);
+	}
+
+	const head = Buffer.concat([
+		Buffer.from(`${ex.method} ${ex.path} HTTP/1.1\r\n`, "latin1"),
+		fields.encode(),
+		Buffer.from("\r\n"),
+	]);
+	try {
+		await soWrite(conn, head);
+	} catch (error) {
+		throw closedOrError(error as Error);
+	}
+	if (reader) {
+		try {
+			await writeBody(conn, reader);
+		} catch (error) {
+			throw closedOrError(error as Error);
+		} finally {
+			if (reader.close) {
+				await reader.close();
+			}
+		}
+	}
+
+	const buf: DynBuf = { data: Buffer.alloc(0), length: 0, begin: 0 };
+	conn.deadline = Date.now() + (ex.options.timeout || kResponseTimeout);
+	let res: HTTPClientRes;
+	let received = false;
+	while (true) {
+		const lines = await readHead(conn, buf, received);
+		received = true;
+		res = parseStatusLine(lines[0]);
+		for (const line of lines.slice(1)) {
+			try {
+				validateHeader(line);
+			} catch (error) {
+				throw responseError(error as Error);
+			}
+		}
+		res.headers = Headers.fromLines(lines.slice(1));
+		// the interim responses are skipped, a 101 ends the exchange
+		if (res.code >= 200 || res.code === 101) {
+			break;
+		}
+	}
+	conn.deadline = ex.options.bodyTimeout ? Date.now() + ex.options.bodyTimeout : null;
+
+	let closeDelimited = false;
+	let raw: BodyReader;
+	const te = res.headers.getList("Transfer-Encoding");
+	const length = res.headers.getInt("Content-Length");
+	if (ex.method === "HEAD" || res.code < 200 || res.code === 204 || res.code === 304) {
+		raw = readerFromConnLength(conn, buf, 0);
+	} else if (te.length > 0 && te[te.length - 1].toLowerCase() === "chunked") {
+		raw = readerFromChunked(conn, buf);
+	} else if (te.length === 0 && length !== null) {
+		if (Number.isNaN(length)) {
+			throw new Error("Bad Content-Length in the response");
+		}
+		raw = readerFromConnLength(conn, buf, length);
+	} else {
+		closeDelimited = true;
+		raw = readerFromConnEOF(conn, buf);
+	}
+
+	const persistent = res.version === "1.1"
+		? !res.headers.hasToken("Connection", "close")
+		: res.headers.hasToken("Connection", "keep-alive");
+	const reusable = ex.pool !== null && persistent && !closeDelimited && res.code !== 101
+		&& !fields.hasToken("Connection", "close");
+	res.body = readerWithRelease(raw, (complete: boolean) => {
+		if (complete && reusable && buf.length === 0 && ex.pool) {
+			release(ex.pool, ex.key, conn);
+		} else {
+			conn.socket.destroy();
+		}
+	});
+	return res;
+}
+
+/**
+ * Writes the body of the request, chunked if its length is unknown.
+ */
+async function writeBody(conn: TCPConn, reader: BodyReader): Promise<void> {
+	while (true) {
+		const data = await reader.read();
+		if (data.length === 0) {
+			break;
+		}
+		await soWrite(conn, reader.length >= 0 ? data : encodeChunk(data));
+	}
+	if (reader.length < 0) {
+		await soWrite(conn, encodeLastChunk(new Headers()));
+	}
+}
+
+/**
+ * Reads the lines of the response head, up to the empty line.
+ * @param received - Whether a previous head was read on this exchange.
+ */
+async function readHead(conn: TCPConn, buf: DynBuf, received: boolean): Promise<Buffer[]> {
+	while (true) {
+		const view = buf.data.subarray(buf.begin, buf.begin + buf.length);
+		const idx = view.indexOf("\r\n\r\n");
+		if (idx >= 0) {
+			const block = Buffer.from(view.subarray(0, idx));
+			bufPop(buf, idx + 4);
+			const lines: Buffer[] = [];
+			let start = 0;
+			while (start <= block.length) {
+				const end = block.indexOf("\r\n", start);
+				lines.push(block.subarray(start, end < 0 ? block.length : end));
+				start = end < 0 ? block.length + 1 : end + 2;
+			}
+			return lines;
+		}
+		if (buf.length > kMaxResponseHead) {
+			throw new Error("Response head too long");
+		}
+		let data: Buffer;
+		try {
+			data = await soRead(conn);
+		} catch (error) {
+			throw error instanceof TimeoutError || received || buf.length > 0 ? error : closedOrError(error as Error);
+		}
+		if (data.length === 0) {
+			if (!received && buf.length === 0) {
+				throw new ConnectionClosedError("Connection closed before the response");
+			}
+			throw new Error("Unexpected end of the response head");
+		}
+		bufPush(buf, data);
+	}
+}
+
+function parseStatusLine(line: Buffer): HTTPClientRes {
+	const m = /^HTTP\/(1\.[01]) (\d{3})(?: ([^\r\n]*))?$/.exec(line.toString("latin1"));
+	if (!m) {
+		throw new Error("Bad status line in the response");
+	}
+	return {
+		code: parseInt(m[2], 10),
+		reason: m[3] || "",
+		version: m[1],
+		headers: new Headers(),
+		body: { length: 0, read: async () => Buffer.from("") },
+	};
+}
+
+/**
+ * Creates a `BodyReader` returning the data until the server closes the connection.
+ */
+function readerFromConnEOF(conn: TCPConn, buf: DynBuf): BodyReader {
+	return {
+		length: -1,
+		read: async (): Promise<Buffer> => {
+			if (buf.length > 0) {
+				const data = Buffer.from(buf.data.subarray(buf.begin, buf.begin + buf.length));
+				bufPop(buf, buf.length);
+				return data;
+			}
+			return soRead(conn);
+		},
+	};
+}
+
+/**
+ * Wraps the body of a response to hand the connection back once the body ends.
+ * @param done - Called once, with whether the body was read to the end.
+ */
+function readerWithRelease(reader: BodyReader, done: (complete: boolean) => void): BodyReader {
+	let finished = false;
+	const finish = (complete: boolean): void => {
+		if (!finished) {
+			finished = true;
+			done(complete);
+		}
+	};
+	return {
+		length: reader.length,
+		read: async (): Promise<Buffer> => {
+			if (finished) {
+				return Buffer.from("");
+			}
+			let data: Buffer;
+			try {
+				data = await reader.read();
+			} catch (error) {
+				finish(false);
+				throw responseError(error as Error);
+			}
+			if (data.length === 0) {
+				finish(true);
+			}
+			return data;
+		},
+		get trailers() {
+			return reader.trailers;
+		},
+		close: async (): Promise<void> => {
+			finish(false);
+		},
+	};
+}
+
+/**
+ * Returns an idle connection to an origin, or null if there is none.
+ */
+function takeIdle(pool: ClientPool, key: string): TCPConn | null {
+	const entries = pool.idle.get(key) || [];
+	let entry = entries.pop();
+	while (entry && (entry.conn.ended || entry.conn.err)) {
+		clearTimeout(entry.timer);
+		entry.conn.socket.destroy();
+		entry = entries.pop();
+	}
+	if (entries.length === 0) {
+		pool.idle.delete(key);
+	}
+	if (!entry) {
+		return null;
+	}
+	clearTimeout(entry.timer);
+	entry.conn.socket.ref();
+	return entry.conn;
+}
+
+/**
+ * Puts a connection back in the pool, closing it if the pool is full.
+ */
+function release(pool: ClientPool, key: string, conn: TCPConn): void {
+	const entries = pool.idle.get(key) || [];
+	if (conn.ended || conn.err || entries.length >= pool.maxIdlePerHost) {
+		conn.socket.destroy();
+		return;
+	}
+	conn.deadline = null;
+	conn.minRate = null;
+	const timer = setTimeout(() => {
+		const idx = entries.findIndex((e) => e.conn === conn);
+		if (idx >= 0) {
+			entries.splice(idx, 1);
+		}
+		if (entries.length === 0 && pool.idle.get(key) === entries) {
+			pool.idle.delete(key);
+		}
+		conn.socket.destroy();
+	}, pool.idleTimeout);
+	// an idle connection does not keep the process alive
+	timer.unref();
+	conn.socket.unref();
+	entries.push({ conn: conn, timer: timer });
+	pool.idle.set(key, entries);
+}
+
+/**
+ * Translates the errors of the parsing code shared with the server, which
+ * describe a bad request, into errors of the response.
+ */
+function responseError(error: Error): Error {
+	if (!(error instanceof HTTPError)) {
+		return error;
+	}
+	if (error.code === 408) {
+		return new TimeoutError("response body timeout");
+	}
+	return new Error(`Bad response: ${error.message}`);
+}
+
+/**
+ * Marks the errors of a connection the server has reset as a closed connection.
+ */
+function closedOrError(error: Error): Error {
+	const code = (error as NodeJS.ErrnoException).code;
+	if (code === "ECONNRESET" || code === "EPIPE") {
+		return new ConnectionClosedError(error.message);
+	}
+	return error;
+}
@@ -6,7 +6,7 @@
  * @module httpServerApi
  */
 import { parse } from "path";
-import { soAccept, soInit, soListen, soRead, soWrite } from "../echo/promise_based_api_tcp_server";
+import { soAccept, soClose, soInit, soListen, soRead, soWrite } from "../echo/promise_based_api_tcp_server";
 import {
 	BodyReader,
 	DynBuf,
@@ -14,12 +14,35 @@ import {
 	HTTPRes,
 	TCPConn,
 	HTTPError,
+	HTTPHandler,
+	ParserOptions,
+	Router,
+	ServerOptions,
+	Shutdown,
+	TimeoutError,
+	HTTPServer,
+	TCPListener,
+	TLSInfo,
 } from "../echo/types";
 import { bufPush, bufPop } from "./dynamicBuffer";
+import { readerFromMemory } from "./readers";
+import { Headers, isToken } from "./headers";
+import { parseAuthority, parseQuery, parseRequestTarget } from "./requestTarget";
+import { parseCookies } from "./cookies";
+import { routerHandler } from "./router";
 import net from "net";
+import * as tls from "tls";
 import { customLog, LogLevel } from "../utils";
+import { withLogContext } from "../logger";
 
 const kMaxHeaderLen = 1024 * 8; // max header length in http request is 8KB
+const kMaxHeaderCount = 100;
+const kKeepAliveTimeout = 5000; // time to wait for the next request, in ms
+const kMaxRequestsPerConn = 100;
+const kHeaderTimeout = 10 * 1000; // time to receive the header block, in ms
+const kRequestTimeout = 60 * 1000; // time to receive the whole request, in ms
+const kMinBodyRate = 1024; // minimum transfer rate of the body, in bytes per second
+const kBodyRateGrace = 5000; // time before the body rate is enforced, in ms
 const kHttpMethods = [
 	"GET",
 	"POST",
@@ -29,10 +52,14 @@ const kHttpMethods = [
 	"OPTIONS",
 	"TRACE",
 	"CONNECT",
+	"PATCH",
 ];
+let requestCounter = 0;
 const kReasons: { [key: number]: string } = {
 	100: "Continue",
 	101: "Switching Protocols",
+	102: "Processing",
+	103: "Early Hints",
 	200: "OK",
 	201: "Created",
 	202: "Accepted",
@@ -91,46 +118,180 @@ const kReasons: { [key: number]: string } = {
 };
 
 
+type ServerState = {
+	listener: TCPListener,
+	handler: HTTPHandler,
+	options: Required<ServerOptions>,
+	parser: Required<ParserOptions>,
+	// no new request is served once the server is closing
+	closing: boolean,
+	// the open connections, with whether they wait for a new request
+	conns: Map<TCPConn, { idle: boolean }>,
+	shutdown: Shutdown,
+	drained: () => void,
+};
+
 /**
  * Starts an HTTP server that listens for incoming connections on the specified port and host.
  * @param port - The port number to listen on.
  * @param host - The host address to bind the server to.
+ * @param app - The router or the handler producing the responses.
+ * @param options - The options of the server.
+ * @returns The handle to stop the server.
  */
-export async function httpServer(port:number, host:string) {
-	const listener = soListen(port, host);
-	
-	while (true) {
+export function httpServer(
+	port:number,
+	host:string,
+	app: Router | HTTPHandler,
+	options: ServerOptions = {}
+): HTTPServer {
+	const listener = soListen(port, host, options.listen);
+	const handler: HTTPHandler = typeof app === "function" ? app : routerHandler(app);
+	const opts: Required<ServerOptions> = {
+		keepAliveTimeout: options.keepAliveTimeout || kKeepAliveTimeout,
+		maxRequestsPerConn: options.maxRequestsPerConn || kMaxRequestsPerConn,
+		headerTimeout: options.headerTimeout || kHeaderTimeout,
+		requestTimeout: options.requestTimeout || kRequestTimeout,
+		minBodyRate: options.minBodyRate || kMinBodyRate,
+		listen: options.listen || {},
+		parser: options.parser || {},
+	};
+	const parser = opts.parser;
+
+	let drained = () => {};
+	const closed = new Promise<void>((resolve) => {
+		drained = resolve;
+	});
+	const server: ServerState = {
+		listener: listener,
+		handler: handler,
+		options: opts,
+		parser: {
+			maxHeaderCount: parser.maxHeaderCount || kMaxHeaderCount,
+			maxHeaderSize: parser.maxHeaderSize || kMaxHeaderLen,
+			allowObsFold: parser.allowObsFold || false,
+			allowLengthConflict: parser.allowLengthConflict || false,
+			allowMissingHost: parser.allowMissingHost || false,
+		},
+		closing: false,
+		conns: new Map(),
+		shutdown: { closing: false, hooks: new Set() },
+		drained: drained,
+	};
+	acceptLoop(server);
+
+	const close = (): Promise<void> => {
+		if (!server.closing) {
+			customLog("closing the server");
+			server.closing = true;
+			soClose(listener);
+			server.conns.forEach((state, conn) => {
+				// the in-flight requests finish, the idle connections are closed now
+				if (state.idle) {
+					conn.socket.destroy();
+				}
+			});
+			// the upgraded connections and the streams are never idle, they are asked to end
+			server.shutdown.closing = true;
+			Array.from(server.shutdown.hooks).forEach((hook) => hook());
+			server.shutdown.hooks.clear();
+			checkDrained(server);
+		}
+		return closed;
+	};
+
+	return {
+		listener: listener,
+		address: () => listener.server.address(),
+		close: close,
+		closeForcefully: (timeout: number): Promise<void> => {
+			close();
+			const timer = setTimeout(() => {
+				customLog(`forcing ${server.conns.size} connections closed`, LogLevel.WARN);
+				server.conns.forEach((state, conn) => conn.socket.destroy());
+			}, timeout);
+			return closed.then(() => clearTimeout(timer));
+		},
+		closed: closed,
+	};
+}
+
+/**
+ * Registers a function called when the server starts closing, for the responses
+ * outliving their request: the function must make them end soon. It is called
+ * at once if the server is already closing.
+ * @param req - The request of the response.
+ * @param hook - The function ending the response.
+ * @returns A function removing the hook, to call once the response ended.
+ */
+export function onShutdown(req: HTTPReq, hook: () => void): () => void {
+	const shutdown = req.shutdown;
+	if (!shutdown) {
+		return () => {};
+	}
+	if (shutdown.closing) {
+		hook();
+		return () => {};
+	}
+	shutdown.hooks.add(hook);
+	return () => {
+		shutdown.hooks.delete(hook);
+	};
+}
+
+/**
+ * Accepts the connections until the server is closed.
+ * @param server - The state of the server.
+ */
+async function acceptLoop(server: ServerState): Promise<void> {
+	while (!server.closing) {
 		try {
-			const socket = await soAccept(listener);
+			const socket = await soAccept(server.listener);
 			if (socket) {
 				// console.log("new connection from", socket.remoteAddress, socket.remotePort);
 				customLog(`new connection from ${socket.remoteAddress} ${socket.remotePort}`);
 				
-				newConn(socket);
+				newConn(socket, server);
 			}
 		} catch (err) {
+			if (server.closing) {
+				break;
+			}
 			console.log("error:", err);
 			customLog(`error: ${err}`, LogLevel.ERROR);
 		}
 	}
 }
 
+function checkDrained(server: ServerState): void {
+	if (server.closing && server.conns.size === 0) {
+		server.drained();
+	}
+}
+
 /**
  * Handles a new connection from a client socket.
  * 
  * @param socket - The client socket object.
+ * @param server - The state of the server.
  */
-async function newConn(socket: net.Socket) {
+function newConn(socket: net.Socket, server: ServerState): Promise<void> {
+	const remote = `${socket.remoteAddress}:${socket.remotePort}`;
+	return withLogContext({ remote: remote }, () => serveConn(socket, server));
+}
+
+async function serveConn(socket: net.Socket, server: ServerState): Promise<void> {
 	const conn = soInit(socket);
+	server.conns.set(conn, { idle: false });
 
 	try {
-		await serveClient(conn);
+		await serveClient(conn, server);
 	} catch (error) {
 		customLog(`error: ${error}`, LogLevel.ERROR);
 		if (error instanceof HTTPError) {
 			const res: HTTPRes = {
 				code: error.code,
-				headers: [],
+				headers: new Headers([["Connection", "close"]]),
 				body: readerFromMemory(Buffer.from(error.message + "\n")),
 			};
 			try {
@@ -143,6 +304,8 @@ async function newConn(socket: net.Socket) {
 	} finally {
 		socket.destroy();
 		customLog(` connection from ${socket.remoteAddress} ${socket.remotePort} closed`);
+		server.conns.delete(conn);
+		checkDrained(server);
 	}
 }
 
@@ -150,21 +313,50 @@ async function newConn(socket: net.Socket) {
  * Serves a client connection by processing incoming HTTP requests and sending back responses.
  * 
  * @param conn - The TCP connection object representing the client connection.
+ * @param server - The state of the server.
  * @returns A Promise that resolves when the client connection is closed.
  */
-async function serveClient(conn: TCPConn): Promise<void> {
+async function serveClient(conn: TCPConn, server: ServerState): Promise<void> {
+	const options = server.options;
+	const state = server.conns.get(conn)!;
 	const buf: DynBuf = {
 		data: Buffer.alloc(0),
 		length: 0,
 		begin: 0,
 	};
+	let served = 0;
+	let requestDeadline: number | null = null;
 
 	while (true) {
-		const msg: HTTPReq | null = cutMessage(buf);
+		if (buf.length > 0 && requestDeadline === null) {
+			// the first bytes of a request arrived, the header must follow quickly
+			const now = Date.now();
+			requestDeadline = now + options.requestTimeout;
+			conn.deadline = Math.min(now + options.headerTimeout, requestDeadline);
+		}
+
+		const msg: HTTPReq | null = cutMessage(buf, server.parser);
 
 		if (!msg) {
 			// console.log("no message yet");
-			const data: Buffer = await soRead(conn);
+			let data: Buffer;
+			state.idle = buf.length === 0;
+			try {
+				// the idle timeout applies while no request has started
+				data = await soRead(conn, state.idle ? options.keepAliveTimeout : undefined);
+			} catch (error) {
+				if (error instanceof TimeoutError) {
+					if (buf.length > 0) {
+						throw new HTTPError(408, "Request Timeout");
+					}
+					// nothing was received, close silently
+					customLog(`idle connection from ${conn.socket.remoteAddress}:${conn.socket.remotePort} timed out`);
+					return;
+				}
+				throw error;
+			} finally {
+				state.idle = false;
+			}
 			bufPush(buf, data);
 			if (data.length === 0 && buf.length === 0) {
 				customLog(`end connection from ${conn.socket.remoteAddress}:${conn.socket.remotePort}`);
@@ -181,53 +373,234 @@ async function serveClient(conn: TCPConn): Promise<void> {
 			continue;
 		}
 
-		customLog(`got ${msg.method} request for ${msg.uri.toString()} from ${conn.socket.remoteAddress}:${conn.socket.remotePort}`);
-		
-		const reqBody: BodyReader = readerFromReq(conn, buf, msg);
-		const res: HTTPRes = await handleReq(msg, reqBody);
+		served++;
+		if (conn.socket instanceof tls.TLSSocket) {
+			msg.tls = tlsInfo(conn.socket);
+		}
+		msg.remote = { address: conn.socket.remoteAddress || "", port: conn.socket.remotePort || 0 };
+		msg.conn = conn;
+		msg.shutdown = server.shutdown;
+		// the body must arrive at a minimum rate and before the end of the request time
+		conn.deadline = requestDeadline;
+		conn.minRate = {
+			bytesPerSec: options.minBodyRate,
+			since: Date.now(),
+			grace: kBodyRateGrace,
+			bytes: 0,
+		};
+		let reqBody: BodyReader = readerFromReq(conn, buf, msg, server.parser);
+		// a request framed both ways may have been read differently by an intermediary
+		const mustClose = msg.headers.has("Transfer-Encoding") && msg.headers.has("Content-Length");
+		const expect = { pending: false };
+		const expectation = msg.headers.get("Expect");
+		if (expectation !== null) {
+			if (expectation.toLowerCase() !== "100-continue") {
+				throw new HTTPError(417, "Expectation Failed");
+			}
+			// HTTP/1.0 clients do not know the interim responses
+			if (msg.version === "1.1" && reqBody.length !== 0) {
+				expect.pending = true;
+				reqBody = readerWithContinue(conn, reqBody, expect);
+			}
+		}
+		let keepAlive = false;
+		// the records of the handler and of the response carry the request id
+		const res: HTTPRes = await withLogContext({ requestId: nextRequestId() }, async () => {
+			customLog(`got ${msg.method} request for ${msg.uri.toString()}`);
+			const res = await server.handler(msg, reqBody);
+			if (res.code >= 200 && res.code < 400) {
+				// the request is accepted, its body may be read while sending the
+				// response, which must not wait for it behind the final head
+				await sendContinue(conn, expect);
+			}
+			// the body was refused without being asked for, the client may send it or not
+			const unread = expect.pending;
+			expect.pending = false;
+			keepAlive = setConnectionHeaders(msg, res, served, options, server.closing || mustClose || unread);
+			try {
+				await writeHTTPRes(conn, res, msg.version, msg.method);
+			} catch (error) {
+				// the head of the response is sent, an error response cannot follow it
+				throw new Error(`response aborted: ${error}`);
+			}
+			return res;
+		});
 
-		await writeHTTPRes(conn, res);
+		// the connection now speaks another protocol, or is a tunnel
+		if (switchesProtocol(msg.method, res)) {
+			clearDeadlines(conn);
+			try {
+				await res.upgrade!(conn, buf);
+			} finally {
+				if (res.body.close) {
+					await res.body.close();
+				}
+			}
+			return;
+		}
 
-		//closing the connection for HTTP 1.0
-		if (msg.version === "1.0") {
+		// the server may have started closing while the response was sent
+		if (!keepAlive || server.closing) {
 			return;
 		}
 
 		while ((await reqBody.read()).length > 0) {
 			//discard the rest of the body
 		}
+		clearDeadlines(conn);
+		requestDeadline = null;
+
+		customLog(() => `after handle req, ${buf.length} bytes buffered: ${JSON.stringify(buf.data.subarray(buf.begin, buf.begin + buf.length).toString("latin1"))}`, LogLevel.DEBUG);
+	}
+}
 
-		console.log("\n\nafter handle req : ", buf.data.toString(), "\n\n");
-		console.log("\n\nafter handle req bin : ", buf.data, "\n\n");
+
+/**
+ * Wraps the body of a request with `Expect: 100-continue`. The interim
+ * `100 Continue` response is sent on the first read, or before the head of a
+ * successful response sent without reading the body.
+ * @param conn - The TCP connection.
+ * @param body - The reader of the request body.
+ * @param expect - Whether the interim response can still be sent.
+ * @returns The wrapped reader.
+ */
+function readerWithContinue(conn: TCPConn, body: BodyReader, expect: { pending: boolean }): BodyReader {
+	return {
+		length: body.length,
+		read: async (): Promise<Buffer> => {
+			await sendContinue(conn, expect);
+			return body.read();
+		},
+		// the trailers are only known once the chunked body is read
+		get trailers() {
+			return body.trailers;
+		},
+	};
+}
+
+/**
+ * Sends the interim `100 Continue` response if the expectation is still pending.
+ */
+async function sendContinue(conn: TCPConn, expect: { pending: boolean }): Promise<void> {
+	if (expect.pending) {
+		expect.pending = false;
+		await soWrite(conn, Buffer.from("HTTP/1.1 100 Continue\r\n\r\n"));
+	}
+}
+
+/**
+ * Returns the parameters negotiated on a TLS connection.
+ * @param socket - The TLS socket.
+ * @returns The TLS parameters exposed on the requests.
+ */
+function tlsInfo(socket: tls.TLSSocket): TLSInfo {
+	const cert = socket.getPeerCertificate();
+	const servername = (socket as tls.TLSSocket & { servername?: string | false }).servername;
+	return {
+		protocol: socket.getProtocol(),
+		cipher: socket.getCipher().name,
+		alpnProtocol: socket.alpnProtocol || null,
+		servername: servername || null,
+		authorized: socket.authorized,
+		// an empty object is returned when the client sent no certificate
+		peerCertificate: cert && Object.keys(cert).length > 0 ? cert : null,
+	};
+}
+
+function clearDeadlines(conn: TCPConn): void {
+	conn.deadline = null;
+	conn.minRate = null;
+}
+
+/**
+ * Decides whether the connection is kept open after a response and sets the
+ * `Connection` and `Keep-Alive` headers of the response accordingly.
+ * HTTP/1.1 connections are persistent unless either side sends `Connection: close`,
+ * and HTTP/1.0 connections only if the client sends `Connection: keep-alive`.
+ * @param req - The HTTP request.
+ * @param res - The HTTP response, its headers are modified.
+ * @param served - The number of requests received on the connection so far.
+ * @param options - The options of the server.
+ * @param closing - Whether the connection must be closed, e.g. because the server is closing.
+ * @returns Whether the connection is kept open.
+ */
+function setConnectionHeaders(
+	req: HTTPReq,
+	res: HTTPRes,
+	served: number,
+	options: Required<ServerOptions>,
+	closing: boolean
+): boolean {
+	if (res.code === 101 || (req.method === "CONNECT" && res.code >= 200 && res.code < 300)) {
+		// the headers of a protocol switch are set by the handler, and the
+		// connection of a tunnel carries no more requests
+		return false;
+	}
+
+	let keepAlive = req.version === "1.0"
+		? req.headers.hasToken("Connection", "keep-alive")
+		: !req.headers.hasToken("Connection", "close");
+	if (
+		closing ||
+		res.headers.hasToken("Connection", "close") ||
+		served >= options.maxRequestsPerConn ||
+		// a body of unknown length is delimited by closing the connection for HTTP/1.0
+		(res.body.length < 0 && req.version === "1.0" && hasBody(req.method, res.code))
+	) {
+		keepAlive = false;
+	}
+
+	res.headers.delete("Connection");
+	res.headers.delete("Keep-Alive");
+	if (!keepAlive) {
+		res.headers.set("Connection", "close");
+		return false;
+	}
+	if (req.version === "1.0") {
+		res.headers.set("Connection", "keep-alive");
 	}
+	const timeout = Math.floor(options.keepAliveTimeout / 1000);
+	res.headers.set("Keep-Alive", `timeout=${timeout}, max=${options.maxRequestsPerConn - served}`);
+	return true;
 }
 
+function nextRequestId(): string {
+	requestCounter = (requestCounter + 1) % Number.MAX_SAFE_INTEGER;
+	return requestCounter.toString(36);
+}
 
 /**
  * Cuts the message from the given buffer and returns an HTTPReq object.
  * If the buffer does not contain a complete message, returns null.
- * Throws an HTTPError if the header length exceeds the maximum allowed length.
+ * The empty lines preceding the request line are skipped.
  *
  * @param buf - The buffer containing the message.
+ * @param parser - The options of the parser.
  * @returns The parsed HTTPReq object or null if the message is incomplete.
- * @throws HTTPError if the header length exceeds the maximum allowed length.
+ * @throws HTTPError 431 if the header length exceeds the maximum allowed length.
  */
-function cutMessage(buf: DynBuf): HTTPReq | null {
+function cutMessage(buf: DynBuf, parser: Required<ParserOptions>): HTTPReq | null {
+	while (buf.length >= 2 && buf.data[buf.begin] === 0x0d && buf.data[buf.begin + 1] === 0x0a) {
+		bufPop(buf, 2);
+	}
+
 	const newline = Buffer.from("\r\n\r\n");
 	const lastIndexInclude = buf.begin + buf.length;
 	const idx = buf.data.subarray(buf.begin, lastIndexInclude).indexOf(newline);
 
 	if (idx < 0) {
 		
-		if (buf.length > kMaxHeaderLen) {
-			throw new HTTPError(413, "Header too long");
+		if (buf.length > parser.maxHeaderSize) {
+			throw new HTTPError(431, "Header too long");
 		}
 		return null;
 	}
+	if (idx + 4 > parser.maxHeaderSize) {
+		throw new HTTPError(431, "Header too long");
+	}
 	
-	console.log("msg : ", Buffer.from(buf.data.subarray(buf.begin, idx + buf.begin + 4)).toString());
-	console.log("\n\n the dynbuf :", buf.data.toString() ,"\n\n");
-	const msg = parseHTTPReq(Buffer.from(buf.data.subarray(buf.begin, idx + buf.begin + 4)));
+	customLog(() => `msg : ${JSON.stringify(buf.data.subarray(buf.begin, idx + buf.begin + 4).toString("latin1"))}`, LogLevel.DEBUG);
+	const msg = parseHTTPReq(Buffer.from(buf.data.subarray(buf.begin, idx + buf.begin + 4)), parser);
 	bufPop(buf, idx + 4);
 
 	return msg;
@@ -237,35 +610,69 @@ function cutMessage(buf: DynBuf): HTTPReq | null {
  * Parses the HTTP request from the given data buffer.
  * 
  * @param data - The buffer containing the HTTP request data.
+ * @param parser - The options of the parser.
  * @returns An object representing the parsed HTTP request.
- * @throws {HTTPError} If the request contains a bad header.
+ * @throws {HTTPError} 400 if the request contains a bad header, request-target or
+ * host, 431 if it has too many header fields, or 501 for an unknown method.
  */
-function parseHTTPReq(data: Buffer): HTTPReq {
+function parseHTTPReq(data: Buffer, parser: Required<ParserOptions>): HTTPReq {
 	
 	const lines: Buffer[] = splitlines(data);
 	const [method, uri, version] = parseRequestLine(lines[0]);
 
-	const headers: Buffer[] = [];
-	for (let i = 1; i < lines.length - 1; i++) {
-		const h = Buffer.from(lines[i]);
-		if (!validateHeader(h)) {
-			throw new HTTPError(400, "Bad header");
+	const fields: Buffer[] = [];
+	for (let i = 1; i < lines.length; i++) {
+		const h = lines[i];
+		if (h[0] === 0x20 || h[0] === 0x09) {
+			// obsolete line folding, the line continues the previous field
+			if (!parser.allowObsFold || fields.length === 0) {
+				throw new HTTPError(400, "Obsolete line folding");
+			}
+			const folded = Buffer.concat([fields[fields.length - 1], Buffer.from(" "), trimBuffer(h)]);
+			validateHeader(folded);
+			fields[fields.length - 1] = folded;
+			continue;
+		}
+		validateHeader(h);
+		fields.push(h);
+		if (fields.length > parser.maxHeaderCount) {
+			throw new HTTPError(431, "Too many header fields");
+		}
+	}
+
+	const headers = Headers.fromLines(fields);
+	const url = parseRequestTarget(uri.toString("latin1"), method);
+	const hosts = headers.getAll("Host");
+	if (hosts.length > 1) {
+		throw new HTTPError(400, "Multiple Host headers");
+	}
+	if (hosts.length === 0 && version === "1.1" && !parser.allowMissingHost) {
+		throw new HTTPError(400, "Missing Host header");
+	}
+	if (url.form !== "absolute" && url.form !== "authority") {
+		// the host of an absolute-form target takes precedence over the header
+		if (hosts.length === 1 && hosts[0].length > 0) {
+			const authority = parseAuthority(hosts[0]);
+			url.host = authority.host;
+			url.port = authority.port;
 		}
-		headers.push(h);
 	}
-	
-	console.assert(lines[lines.length - 1].length === 0);
 
 	return {
 		method: method,
 		uri: uri,
+		url: url,
+		query: parseQuery(url.search),
 		version: version,
 		headers: headers,
+		// a client sends a single Cookie field, the lines of a relayed request are joined
+		cookies: parseCookies(headers.has("Cookie") ? headers.getAll("Cookie").join("; ") : null),
 	};
 }
 
 /**
  * Splits a buffer into an array of buffers based on the separator "\r\n".
+ * The empty lines are dropped.
  * 
  * @param data - The buffer to be split.
  * @returns An array of buffers representing the lines.
@@ -282,7 +689,7 @@ function splitlines(data: Buffer): Buffer[] {
 			lines.push(Buffer.from(data.subarray(begin)));
 			break;
 		}
-		if(idx != 0){
+		if (idx !== begin) {
 			lines.push(Buffer.from(data.subarray(begin, idx)));
 		}
 		begin = idx + 2;
@@ -298,27 +705,30 @@ function splitlines(data: Buffer): Buffer[] {
  * @throws {HTTPError} If the request line is malformed or contains invalid values.
  */
 function parseRequestLine(arg0: Buffer): [string, Buffer, string] {
-	let elements = arg0.toString().split(" ");
-	console.log("elements for req : ", elements);
-	// as per the HTTP request line format, it should have 3 elements
+	let elements = arg0.toString("latin1").split(" ");
+	customLog(() => `elements for req : ${JSON.stringify(elements)}`, LogLevel.DEBUG);
+	// as per the HTTP request line format, it should have 3 elements separated by single spaces
 	if (elements.length !== 3) {
 		throw new HTTPError(400, "Bad request line");
 	}
 
 	const method = elements[0];
-	// check if the method is valid
+	if (!isToken(method)) {
+		throw new HTTPError(400, "Bad method");
+	}
+	// a well-formed method the server does not know
 	if (!kHttpMethods.includes(method)) {
-		customLog(`Method ${method} not allowed`, LogLevel.ERROR);
-		throw new HTTPError(405, "Method not allowed");
+		customLog(`Method ${method} not implemented`, LogLevel.ERROR);
+		throw new HTTPError(501, "Method not implemented");
 	}
 
-	const uri = Buffer.from(elements[1]);
-	// check if the uri is valid
-	if (!validateURI(uri, method)) {
-		throw new HTTPError(400, "Bad URI");
-	}
+	const uri = Buffer.from(elements[1], "latin1");
 
-	const version = elements[2].split("/")[1];
+	const m = /^HTTP\/(\d)\.(\d)$/.exec(elements[2]);
+	if (!m) {
+		throw new HTTPError(400, "Bad HTTP version");
+	}
+	const version = `${m[1]}.${m[2]}`;
 	// check if the version is valid
 	if (version !== "1.0" && version !== "1.1") {
 		throw new HTTPError(505, "HTTP version not supported");
@@ -328,264 +738,401 @@ function parseRequestLine(arg0: Buffer): [string, Buffer, string] {
 }
 
 /**
- * Validates a header buffer.
- * @param h - The header buffer to validate.
- * @returns A boolean indicating whether the header is valid or not.
+ * Validates a header line: the field name is a token directly followed by the
+ * colon, and the value contains no control character other than tabs.
+ * @param h - The header line, without the CRLF.
+ * @throws {HTTPError} 400 if the header is malformed.
  */
-function validateHeader(h: Buffer): boolean {
-	// console.log("validating header");
-	// check if the header is valid
-	if (h.length === 0 || !h.includes(Buffer.from(":"))) {
-		// console.log(`header ${h.toString()} is invalid`);
-		return false;
+export function validateHeader(h: Buffer): void {
+	const idx = h.indexOf(":");
+	if (idx < 0) {
+		throw new HTTPError(400, "Bad header");
 	}
-	// console.log(`header ${h.toString()} is valid after first check`);
-	let elements = h.toString().split(":", 2);
-	// console.log(`header ${h.toString()} is valid after split with length ${elements.length}`);
-	if (
-		elements.length !== 2 ||
-		elements[0].length === 0 ||
-		elements[1].length === 0 ||
-		elements[0].endsWith(" ")
-	) {
-		return false;
+	// whitespace before the colon is forbidden, it is how smuggled names hide
+	if (!isToken(h.subarray(0, idx).toString("latin1"))) {
+		throw new HTTPError(400, "Bad header name");
+	}
+	for (let i = idx + 1; i < h.length; i++) {
+		if ((h[i] < 0x20 && h[i] !== 0x09) || h[i] === 0x7f) {
+			throw new HTTPError(400, "Bad header value");
+		}
 	}
-	// console.log(`header ${h.toString()} is valid`);
-	return true;
 }
 
-function readerFromMemory(arg0: Buffer): BodyReader {
-	let done = false;
-	return {
-		length: arg0.length,
-		read: async (): Promise<Buffer> => {
-			if (done) {
-				return Buffer.from("");
-			}
-			done = true;
-			return arg0;
-		},
-	};
+function trimBuffer(b: Buffer): Buffer {
+	let start = 0;
+	let end = b.length;
+	while (start < end && (b[start] === 0x20 || b[start] === 0x09)) {
+		start++;
+	}
+	while (end > start && (b[end - 1] === 0x20 || b[end - 1] === 0x09)) {
+		end--;
+	}
+	return b.subarray(start, end);
 }
 
 /**
  * Writes an HTTP response to the given TCP connection.
+ * A body of unknown length (-1) is sent with the chunked transfer encoding to
+ * HTTP/1.1 clients, and delimited by closing the connection for HTTP/1.0 clients.
+ * The trailers of the response are read once the body is fully written, so the
+ * handler can fill them while producing the body. They are only sent with a chunked body.
+ * The framing headers set by the handler are replaced. The 1xx, 204 and 304
+ * responses have neither body nor `Content-Length`, and the response to a HEAD
+ * request has the headers of the GET response without its body.
  * @param conn - The TCP connection to write the response to.
  * @param res - The HTTP response to write.
- * @throws {Error} - If the response body is empty.
+ * @param version - The HTTP version of the request being answered.
+ * @param method - The method of the request being answered.
  */
-async function writeHTTPRes(conn: TCPConn, res: HTTPRes) {
-	if (res.body.length < 0) {
-		throw new Error("not implemented");
+async function writeHTTPRes(conn: TCPConn, res: HTTPRes, version: string = "1.1", method: string = "GET") {
+	const withBody = hasBody(method, res.code);
+	const chunked = withBody && res.body.length < 0 && version !== "1.0";
+	const switching = switchesProtocol(method, res);
+	let sent = false;
+
+	res.headers.delete("Transfer-Encoding");
+	res.headers.delete("Trailer");
+	if (res.code < 200 || res.code === 204 || res.code === 304 || (method === "CONNECT" && res.code < 300)) {
+		// there is no body to delimit, a successful CONNECT starts a tunnel
+		res.headers.delete("Content-Length");
+	} else if (res.body.length >= 0) {
+		// set the content length, also announced for HEAD
+		res.headers.set("Content-Length", res.body.length);
+	} else if (chunked) {
+		res.headers.delete("Content-Length");
+		res.headers.set("Transfer-Encoding", "chunked");
+		if (res.trailers && res.trailers.size > 0) {
+			res.headers.set("Trailer", res.trailers.names().join(", "));
+		}
+	} else {
+		// the body is delimited by the end of the connection, or unknown for HEAD
+		res.headers.delete("Content-Length");
 	}
 
-	// set the content length
-	res.headers.push(Buffer.from(`Content-Length: ${res.body.length}`));
+	try {
+		// write the header
+		await soWrite(conn, encodeHTTPRes(res));
+		sent = true;
+		if (!withBody) {
+			return;
+		}
 
-	// write the header
-	await soWrite(conn, encodeHTTPRes(res));
+		// write the body
+		while (true) {
+			const data = await res.body.read();
+			if (data.length === 0) {
+				break;
+			}
+			// console.log("writing data : ", data.toString(), " to ", conn.socket.remoteAddress, conn.socket.remotePort);
+			if (chunked) {
+				await soWrite(conn, encodeChunk(data));
+			} else {
+				await soWrite(conn, data);
+			}
+		}
 
-	// write the body
-	while (true) {
-		const data = await res.body.read();
-		if (data.length === 0) {
-			break;
+		if (chunked) {
+			await soWrite(conn, encodeLastChunk(res.trailers || new Headers()));
 		}
-		// console.log("writing data : ", data.toString(), " to ", conn.socket.remoteAddress, conn.socket.remotePort);
-		await soWrite(conn, data);
+	} finally {
+		// the body of a response switching protocols is closed once the upgrade ends
+		if (res.body.close && !(switching && sent)) {
+			await res.body.close();
+		}
+	}
+}
+
+/**
+ * Tells whether a response hands the connection over to its upgrade callback:
+ * a 101 response, or a successful CONNECT starting a tunnel.
+ * @param method - The method of the request.
+ * @param res - The response.
+ */
+function switchesProtocol(method: string, res: HTTPRes): boolean {
+	const tunnel = method === "CONNECT" && res.code >= 200 && res.code < 300;
+	return (res.code === 101 || tunnel) && res.upgrade !== undefined;
+}
+
+/**
+ * Tells whether a response carries body data (RFC 9112, section 6.3).
+ * @param method - The method of the request.
+ * @param code - The status code of the response.
+ */
+function hasBody(method: string, code: number): boolean {
+	if (method === "CONNECT" && code >= 200 && code < 300) {
+		return false;
 	}
+	return method !== "HEAD" && code >= 200 && code !== 204 && code !== 304;
 }
 
-function getReasonFromCode(code: number): string {
+/**
+ * Frames a piece of body data as a chunk.
+ * @param data - The non-empty chunk data.
+ * @returns The chunk with its size line and CRLF.
+ */
+export function encodeChunk(data: Buffer): Buffer {
+	return Buffer.concat([
+		Buffer.from(`${data.length.toString(16)}\r\n`),
+		data,
+		Buffer.from("\r\n"),
+	]);
+}
+
+/**
+ * Encodes the last chunk of a chunked body followed by the trailer section.
+ * @param trailers - The trailer fields to send.
+ * @returns The last chunk and the trailers.
+ */
+export function encodeLastChunk(trailers: Headers): Buffer {
+	return Buffer.concat([Buffer.from("0\r\n"), trailers.encode(), Buffer.from("\r\n")]);
+}
+
+/**
+ * Returns the reason phrase of a status code.
+ * @param code - The status code.
+ * @returns The reason phrase, "Unknown" for an unregistered code.
+ */
+export function getReasonFromCode(code: number): string {
 	return kReasons[code] || "Unknown";
 }
 
 function encodeHTTPRes(res: HTTPRes): Buffer {
-	const statusLine = `HTTP/1.1 ${res.code} ${getReasonFromCode(
+	const statusLine = `HTTP/1.1 ${res.code} ${res.reason || getReasonFromCode(
 		res.code
 	)}\r\n`;
-	const headers =
-		res.headers.map((header) => header.toString()).join("\r\n") +
-		"\r\n\r\n";
 	// const body = res.body;
 
-	return Buffer.concat([Buffer.from(statusLine), Buffer.from(headers)]);
+	return Buffer.concat([Buffer.from(statusLine), res.headers.encode(), Buffer.from("\r\n")]);
 }
 
 
 /**
  * Creates a `BodyReader` based on the provided connection, buffer, and request.
+ * The framing follows RFC 9112, section 6.3: a request without `Content-Length`
+ * nor `Transfer-Encoding` has no body, and the ambiguous framings are rejected.
  *
  * @param conn - The TCP connection.
  * @param buf - The buffer.
  * @param req - The HTTP request.
+ * @param parser - The options of the parser.
  * @returns A `BodyReader` object.
- * @throws {HTTPError} If the Content-Length header is invalid or if the request method does not allow a body.
- * @throws {Error} If the transfer encoding is not supported or if the function is not implemented.
+ * @throws {HTTPError} 400 if the framing headers are invalid or ambiguous or if the
+ * request method does not allow a body, or 501 for an unknown transfer coding.
  */
-function readerFromReq(conn: TCPConn, buf: DynBuf, req: HTTPReq): BodyReader {
-	let bodyLen = -1;
+function readerFromReq(conn: TCPConn, buf: DynBuf, req: HTTPReq, parser: Required<ParserOptions>): BodyReader {
+	let bodyLen = 0;
 
-	const contentLength = getField(req.headers, "Content-Length");
-	if (contentLength) {
-		bodyLen = parseDec(contentLength.toString("latin1")); // latin1 is used to convert the buffer to string.
+	// a list of identical values is accepted, e.g. "5, 5"
+	const contentLength = req.headers.getInt("Content-Length");
+	if (contentLength !== null) {
+		bodyLen = contentLength;
 		if (isNaN(bodyLen)) {
 			throw new HTTPError(400, "Bad Content-Length");
 		}
 	}
-	const bodyAllowed = !(req.method === "GET" || req.method === "HEAD");
-	const chunked =
-		getField(req.headers, "Transfer-Encoding")?.equals(
-			Buffer.from("chunked")
-		) || false;
 
+	const chunked = req.headers.has("Transfer-Encoding");
+	if (chunked) {
+		if (req.version === "1.0") {
+			throw new HTTPError(400, "Transfer-Encoding in HTTP/1.0");
+		}
+		if (contentLength !== null && !parser.allowLengthConflict) {
+			throw new HTTPError(400, "Both Content-Length and Transfer-Encoding");
+		}
+		const codings = req.headers.getList("Transfer-Encoding").map((c) => c.toLowerCase());
+		if (codings.length === 0 || codings[codings.length - 1] !== "chunked") {
+			// the length of the body cannot be determined
+			throw new HTTPError(400, "Bad Transfer-Encoding");
+		}
+		if (codings.length > 1) {
+			throw new HTTPError(codings.slice(0, -1).includes("chunked") ? 400 : 501, "Unsupported Transfer-Encoding");
+		}
+	}
+
+	const bodyAllowed = !(req.method === "GET" || req.method === "HEAD");
 	if (!bodyAllowed && (bodyLen > 0 || chunked)) {
 		// console.log("body not allowed");
 		throw new HTTPError(400, "Body not allowed");
 	}
 
-	if (!bodyAllowed) {
-		bodyLen = 0;
-	}
-
 	if (chunked) {
-		return readerFromChunked(conn, buf);
-	} else if (bodyLen >= 0) {
-		return readerFromConnLength(conn, buf, bodyLen);
-	} else {
-		throw new Error("Not implemented");
+		return readerFromChunked(conn, buf, parser.maxHeaderSize);
 	}
+	return readerFromConnLength(conn, buf, bodyLen);
 }
 
 /**
- * Handles the incoming HTTP request and returns the corresponding HTTP response.
- * @param req - The HTTP request object.
- * @param reqBody - The body of the HTTP request.
- * @returns A promise that resolves to the HTTP response object.
+ * Creates a `BodyReader` object that reads a chunked body from a TCP connection.
+ * The chunk data is returned incrementally as it arrives in the shared buffer, so
+ * a chunk is never fully buffered. Once the last chunk is read, the trailer
+ * headers (if any) are available in the `trailers` field of the reader.
+ * @param conn The TCP connection to read from.
+ * @param buf The buffer to store the read data.
+ * @param maxHeaderSize The maximum size of the trailer section and of a chunk-size line.
+ * @returns A `BodyReader` object with a `read` method that reads the chunked body.
+ * @throws {HTTPError} If a chunk size is malformed or the connection ends prematurely.
  */
-async function handleReq(req: HTTPReq, reqBody: BodyReader): Promise<HTTPRes> {
-	let resp: BodyReader;
+export function readerFromChunked(conn: TCPConn, buf: DynBuf, maxHeaderSize: number = kMaxHeaderLen): BodyReader {
+	let remaining = 0; // bytes left in the current chunk
+	let inChunk = false;
+	let done = false;
 
-	switch (req.uri.toString("latin1")) {
-		case "/echo":
-			resp = reqBody;
-			break;
+	const reader: BodyReader = {
+		length: -1,
+		read: async (): Promise<Buffer> => {
+			while (!done) {
+				if (inChunk && remaining > 0) {
+					if (buf.length === 0) {
+						await fillBuffer(conn, buf);
+					}
+					const availableData = Math.min(buf.length, remaining);
+					remaining -= availableData;
+					const data = Buffer.from(
+						buf.data.subarray(buf.begin, buf.begin + availableData)
+					);
+					bufPop(buf, availableData);
+					return data;
+				}
 
-		default:
-			resp = readerFromMemory(Buffer.from("Hello From Nazarick\n"));
-			break;
-	}
+				if (inChunk) {
+					// the chunk data must be followed by a CRLF
+					const line = await readLine(conn, buf, maxHeaderSize);
+					if (line.length !== 0) {
+						throw new HTTPError(400, "Bad chunk terminator");
+					}
+					inChunk = false;
+				}
 
-	return {
-		code: 200,
-		headers: [Buffer.from("Server: Nazarick")],
-		body: resp,
+				remaining = parseChunkSize(await readLine(conn, buf, maxHeaderSize));
+				if (remaining === 0) {
+					reader.trailers = await readTrailers(conn, buf, maxHeaderSize);
+					done = true;
+				} else {
+					inChunk = true;
+				}
+			}
+			return Buffer.from("");
+		},
 	};
+	return reader;
 }
 
 /**
- * Validates the URI based on the given method.
- * @param uri - The URI to validate as a Buffer.
- * @param method - The HTTP method used for validation.
- * @returns A boolean indicating whether the URI is valid or not.
+ * Parses a chunk-size line, ignoring any chunk extensions.
+ * @param line - The chunk-size line without the CRLF.
+ * @returns The size of the chunk.
+ * @throws {HTTPError} If the chunk size is not a valid hexadecimal number.
  */
-function validateURI(uri: Buffer, method: string): boolean {
-	// check if the uri is valid
-	if (uri.length === 0 || uri.includes(Buffer.from(" "))) {
-		return false;
+function parseChunkSize(line: Buffer): number {
+	// chunk-size [ BWS ";" chunk-ext ]
+	const m = /^([0-9A-Fa-f]+)(?:[ \t]*;[\x20-\x7e\t]*)?$/.exec(line.toString("latin1"));
+	if (!m) {
+		throw new HTTPError(400, "Bad chunk size");
 	}
-	if (method === "CONNECT" && !uri.includes(Buffer.from(":"))) {
-		return false;
+	const size = parseInt(m[1], 16);
+	if (!Number.isSafeInteger(size)) {
+		throw new HTTPError(400, "Chunk size too large");
 	}
-	if (method === "OPTIONS" && uri.length !== 1) {
-		return false;
+	return size;
+}
+
+/**
+ * Reads the trailer section that follows the last chunk.
+ * @param conn - The TCP connection to read from.
+ * @param buf - The buffer holding the unread data.
+ * @param maxHeaderSize - The maximum size of the trailer section.
+ * @returns The trailer fields, empty if the body has no trailers.
+ * @throws {HTTPError} If a trailer field is malformed or the trailers are too long.
+ */
+async function readTrailers(conn: TCPConn, buf: DynBuf, maxHeaderSize: number): Promise<Headers> {
+	const trailers: Buffer[] = [];
+	let total = 0;
+	while (true) {
+		const line = await readLine(conn, buf, maxHeaderSize);
+		if (line.length === 0) {
+			return Headers.fromLines(trailers);
+		}
+		total += line.length + 2;
+		if (total > maxHeaderSize) {
+			throw new HTTPError(431, "Trailers too long");
+		}
+		if (line[0] === 0x20 || line[0] === 0x09) {
+			throw new HTTPError(400, "Obsolete line folding");
+		}
+		validateHeader(line);
+		trailers.push(line);
 	}
-	return true;
 }
 
 /**
- * Retrieves the value of a specific field from an array of headers.
- * @param headers - The array of headers.
- * @param key - The key of the field to retrieve.
- * @returns The value of the field as a Buffer, or null if the field is not found.
+ * Reads a CRLF-terminated line from the buffer, reading more data from the
+ * connection if needed. The line is removed from the buffer.
+ * @param conn - The TCP connection to read from.
+ * @param buf - The buffer holding the unread data.
+ * @param maxLength - The maximum length of the line.
+ * @returns The line without the CRLF.
+ * @throws {HTTPError} If the line is too long or the connection ends before the CRLF.
  */
-function getField(headers: Buffer[], key: string): Buffer | null {
-	for (const h of headers) {
-		const [k, v] = h.toString().split(":");
-		if (k.toLowerCase() === key.toLowerCase()) {
-			customLog(`Field "${key}" found in headers`, LogLevel.INFO);
-			return Buffer.from(v);
+async function readLine(conn: TCPConn, buf: DynBuf, maxLength: number): Promise<Buffer> {
+	const separator = Buffer.from("\r\n");
+	while (true) {
+		const idx = buf.data
+			.subarray(buf.begin, buf.begin + buf.length)
+			.indexOf(separator);
+		if (idx >= 0) {
+			const line = Buffer.from(buf.data.subarray(buf.begin, buf.begin + idx));
+			bufPop(buf, idx + 2);
+			return line;
 		}
+		if (buf.length > maxLength) {
+			throw new HTTPError(400, "Line too long");
+		}
+		await fillBuffer(conn, buf);
 	}
-	customLog(`Field "${key}" not found in headers`, LogLevel.WARN);
-	return null;
 }
 
-function parseDec(arg0: string): number {
-	return parseInt(arg0, 10) || NaN;
+/**
+ * Reads more data from the connection into the buffer.
+ * @param conn - The TCP connection to read from.
+ * @param buf - The buffer to push the data into.
+ * @throws {HTTPError} If the connection ends or the read times out.
+ */
+async function fillBuffer(conn: TCPConn, buf: DynBuf): Promise<void> {
+	const data = await readBody(conn);
+	if (data.length === 0) {
+		throw new HTTPError(400, "Unexpected EOF");
+	}
+	bufPush(buf, data);
 }
+
 /**
- * Creates a `BodyReader` object that reads a chunked body from a TCP connection.
- * @param conn The TCP connection to read from.
- * @param buf The buffer to store the read data.
- * @returns A `BodyReader` object with a `read` method that reads the chunked body.
+ * Reads a piece of the request body from the connection.
+ * @param conn - The TCP connection to read from.
+ * @returns The data, empty once the connection ended.
+ * @throws {HTTPError} If the deadline or the minimum rate of the body is missed.
+ */
+async function readBody(conn: TCPConn): Promise<Buffer> {
+	try {
+		return await soRead(conn);
+	} catch (error) {
+		if (error instanceof TimeoutError) {
+			throw new HTTPError(408, "Request Timeout");
+		}
+		throw error;
+	}
+}
+
+/**
+ * Creates a `BodyReader` reading a body of known length from a TCP connection,
+ * starting with the data already in the buffer.
+ * @param conn - The TCP connection to read from.
+ * @param buf - The buffer holding the unread data.
+ * @param bodyLen - The length of the body.
+ * @returns A `BodyReader` object.
+ * @throws {HTTPError} If the connection ends before the end of the body.
  */
-function readerFromChunked(conn: TCPConn, buf: DynBuf): BodyReader {
-	// let chunks: Buffer[] = [];
-	// let chunkSize: number | null = null;
-	// let remainingSize: number | null = null;
-	// let isLastChunk = false;
-
-	// async function read(): Promise<Buffer> {
-	// 	if (chunks.length > 0) {
-	// 		return chunks.shift()!;
-	// 	}
-
-	// 	while (true) {
-	// 		if (chunkSize === null) {
-	// 			const line = await readLine();
-	// 			chunkSize = parseInt(line.toString(), 16);
-	// 			if (isNaN(chunkSize)) {
-	// 				throw new HTTPError(400, "Invalid chunk size");
-	// 			}
-	// 			if (chunkSize === 0) {
-	// 				isLastChunk = true;
-	// 				break;
-	// 			}
-	// 		}
-
-	// 		if (remainingSize === null) {
-	// 			remainingSize = chunkSize;
-	// 		}
-
-	// 		const data = await soRead(conn);
-	// 		bufPush(buf, data);
-
-	// 		const availableData = Math.min(buf.length, remainingSize);
-	// 		const chunk = buf.data.subarray(buf.begin, buf.begin + availableData);
-	// 		bufPop(buf, availableData);
-
-	// 		chunks.push(chunk);
-	// 		remainingSize -= availableData;
-
-	// 		if (remainingSize === 0) {
-	// 			chunkSize = null;
-	// 			remainingSize = null;
-	// 		}
-	// 	}
-
-	// 	if (isLastChunk) {
-	// 		return Buffer.concat(chunks);
-	// 	}
-
-	// 	throw new HTTPError(400, "Unexpected end of chunked body");
-	// }
-
-	// return { read };
-	throw new Error("Function not implemented.");
-}
-
-function readerFromConnLength(
+export function readerFromConnLength(
 	conn: TCPConn,
 	buf: DynBuf,
 	bodyLen: number
@@ -598,7 +1145,7 @@ function readerFromConnLength(
 			}
 
 			if (buf.length === 0) {
-				const data = await soRead(conn);
+				const data = await readBody(conn);
 				bufPush(buf, data);
 
 				if (data.length === 0) {
@@ -0,0 +1,82 @@
+/**
+ * This file contains the middleware pipeline of the HTTP server.
+ * A middleware runs around the rest of the chain: it can inspect or replace the
+ * request and its body before calling `next`, short-circuit by returning its own
+ * response, wrap the response `BodyReader`, and catch the errors thrown downstream.
+ *
+ * @module middleware
+ */
+import { BodyReader, HTTPError, HTTPHandler, HTTPReq, HTTPRes, Middleware } from "../echo/types";
+import { customLog, LogLevel } from "../utils";
+import { readerFromMemory } from "./readers";
+import { Headers } from "./headers";
+
+/**
+ * Composes middlewares around a handler. The first middleware is the outermost one.
+ * @param middlewares - The middlewares, in the order they see the request.
+ * @param handler - The handler at the end of the chain.
+ * @returns A handler running the whole chain.
+ */
+export function compose(middlewares: Middleware[], handler: HTTPHandler): HTTPHandler {
+	return middlewares.reduceRight(
+		(next: HTTPHandler, mw: Middleware): HTTPHandler =>
+			(req: HTTPReq, body: BodyReader) => mw(req, body, next),
+		handler
+	);
+}
+
+/**
+ * Creates a middleware logging every request with its status and duration.
+ * The duration covers the handler only, not the writing of the body.
+ * @returns The middleware.
+ */
+export function requestLogger(): Middleware {
+	return async (req, body, next) => {
+		const start = Date.now();
+		const res = await next(req, body);
+		customLog(`${req.method} ${req.uri.toString("latin1")} ${res.code} ${Date.now() - start}ms`);
+		return res;
+	};
+}
+
+/**
+ * Creates a middleware adding headers to every response, unless the handler
+ * already set a header with the same name.
+ * @param headers - The headers to add by name, e.g. `{ Server: "Nazarick" }`.
+ * @returns The middleware.
+ */
+export function defaultHeaders(headers: { [name: string]: string }): Middleware {
+	return async (req, body, next) => {
+		const res = await next(req, body);
+		for (const name of Object.keys(headers)) {
+			if (!res.headers.has(name)) {
+				res.headers.set(name, headers[name]);
+			}
+		}
+		return res;
+	};
+}
+
+/**
+ * Creates a middleware translating unexpected errors of the handlers into
+ * 500 responses, so the connection stays usable. `HTTPError`s are rethrown since
+ * they may come from a broken request.
+ * @returns The middleware.
+ */
+export function catchErrors(): Middleware {
+	return async (req, body, next) => {
+		try {
+			return await next(req, body);
+		} catch (error) {
+			if (error instanceof HTTPError) {
+				throw error;
+			}
+			customLog(`error in handler: ${error}`, LogLevel.ERROR);
+			return {
+				code: 500,
+				headers: new Headers([["Content-Type", "text/plain"]]),
+				body: readerFromMemory(Buffer.from("Internal Server Error\n")),
+			};
+		}
+	};
+}
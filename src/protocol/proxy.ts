@@ -0,0 +1,313 @@
+/**
+ * This file contains the reverse proxy handler.
+ * A request is forwarded to one of the healthy upstreams of a pool with the
+ * HTTP client, and the response of the upstream is returned with its body still
+ * streaming, so neither body is buffered. The hop-by-hop fields are dropped both
+ * ways. An upstream refusing connections is marked down until an active health
+ * check succeeds again.
+ *
+ * @module proxy
+ */
+import {
+	BodyReader,
+	HTTPHandler,
+	HTTPReq,
+	HTTPRes,
+	TimeoutError,
+	Upstream,
+	UpstreamPool,
+} from "../echo/types";
+import { Headers } from "./headers";
+import { closePool, createPool, httpRequest } from "./httpClient";
+import { getReasonFromCode } from "./httpServerApi";
+import { textResponse } from "./router";
+import { customLog, LogLevel } from "../utils";
+
+const kHealthInterval = 5000;
+const kHealthTimeout = 2000;
+// fields meaningful for a single connection only (RFC 9110, section 7.6.1)
+const kHopByHop = [
+	"connection",
+	"keep-alive",
+	"proxy-connection",
+	"proxy-authenticate",
+	"proxy-authorization",
+	"te",
+	"trailer",
+	"transfer-encoding",
+	"upgrade",
+];
+// the errors meaning that the upstream could not be reached at all
+const kConnectErrors = ["ECONNREFUSED", "EHOSTUNREACH", "ENETUNREACH", "ENOTFOUND", "EAI_AGAIN"];
+
+export type UpstreamPoolOptions = {
+	strategy?: "round-robin" | "least-connections",
+	// path requested by the health checks, e.g. "/health"
+	healthPath?: string,
+	// time between two health checks, in milliseconds
+	healthInterval?: number,
+	healthTimeout?: number,
+};
+
+export type ProxyOptions = {
+	// time to receive the head of the upstream response, 504 after it
+	timeout?: number,
+	connectTimeout?: number,
+	// forward the Host header of the client instead of the one of the upstream
+	preserveHost?: boolean,
+};
+
+/**
+ * Creates a pool of upstreams and starts their health checks. The upstreams are
+ * considered healthy until a request or a check fails.
+ * @param urls - The origins of the upstreams, e.g. "http://127.0.0.1:9000".
+ * @param options - The options of the pool.
+ * @returns The pool.
+ * @throws {Error} If a URL is not an http or https origin.
+ */
+export function createUpstreamPool(urls: string[], options: UpstreamPoolOptions = {}): UpstreamPool {
+	const upstreams = urls.map((url): Upstream => {
+		const target = new URL(url);
+		if ((target.protocol !== "http:" && target.protocol !== "https:") || target.pathname !== "/" || target.search) {
+			throw new Error(`Bad upstream ${url}`);
+		}
+		return { origin: target.origin, host: target.host, healthy: true, active: 0 };
+	});
+	const pool: UpstreamPool = {
+		upstreams: upstreams,
+		strategy: options.strategy || "round-robin",
+		next: 0,
+		client: createPool(),
+		healthTimer: null,
+	};
+
+	const path = options.healthPath || "/";
+	const timeout = options.healthTimeout || kHealthTimeout;
+	pool.healthTimer = setInterval(() => {
+		for (const upstream of pool.upstreams) {
+			checkHealth(upstream, path, timeout);
+		}
+	}, options.healthInterval || kHealthInterval);
+	// the health checks do not keep the process alive
+	pool.healthTimer.unref();
+	return pool;
+}
+
+/**
+ * Stops the health checks of a pool and closes its idle connections.
+ * @param pool - The pool of upstreams.
+ */
+export function closeUpstreamPool(pool: UpstreamPool): void {
+	if (pool.healthTimer) {
+		clearInterval(pool.healthTimer);
+		pool.healthTimer = null;
+	}
+	closePool(pool.client);
+}
+
+/**
+ * Creates a handler forwarding the requests to a pool of upstreams. The path
+ * and the query of the request are kept. An upstream that cannot be reached is
+ * marked down and the next one is tried, since the request body was not read.
+ * @param pool - The pool of upstreams.
+ * @param options - The options of the proxy.
+ * @returns The handler, usable as a route handler too.
+ */
+export function proxyHandler(pool: UpstreamPool, options: ProxyOptions = {}): HTTPHandler {
+	return async (req: HTTPReq, body: BodyReader): Promise<HTTPRes> => {
+		const path = req.url.path + (req.url.search ? `?${req.url.search}` : "");
+		// the errors of the client body are not the fault of the upstream
+		let bodyError: Error | null = null;
+		const source: BodyReader = {
+			length: body.length,
+			read: async (): Promise<Buffer> => {
+				try {
+					return await body.read();
+				} catch (error) {
+					bodyError = error as Error;
+					throw error;
+				}
+			},
+		};
+
+		let failure: Error | null = null;
+		const tried: Upstream[] = [];
+		let upstream: Upstream | null;
+		while ((upstream = pickUpstream(pool, tried))) {
+			tried.push(upstream);
+			upstream.active++;
+			try {
+				const res = await httpRequest(
+					req.method,
+					upstream.origin + path,
+					forwardedHeaders(req, upstream, options),
+					body.length === 0 ? null : source,
+					{ pool: pool.client, timeout: options.timeout, connectTimeout: options.connectTimeout }
+				);
+				return proxiedResponse(req, res.code, res.headers, res.body, upstream);
+			} catch (error) {
+				upstream.active--;
+				if (bodyError) {
+					throw bodyError;
+				}
+				failure = error as Error;
+				customLog(`proxy to ${upstream.origin} failed: ${failure.message}`, LogLevel.WARN);
+				if (!isConnectError(failure)) {
+					break;
+				}
+				upstream.healthy = false;
+			}
+		}
+
+		const code = failure instanceof TimeoutError ? 504 : 502;
+		return textResponse(code, `${getReasonFromCode(code)}\n`);
+	};
+}
+
+/**
+ * Picks a healthy upstream not tried yet, by the strategy of the pool.
+ */
+function pickUpstream(pool: UpstreamPool, tried: Upstream[]): Upstream | null {
+	const count = pool.upstreams.length;
+	let best: Upstream | null = null;
+	let bestIdx = 0;
+	for (let i = 0; i < count; i++) {
+		const idx = (pool.next + i) % count;
+		const upstream = pool.upstreams[idx];
+		if (!upstream.healthy || tried.includes(upstream)) {
+			continue;
+		}
+		// the ties of least-connections are broken in round-robin order
+		if (!best || (pool.strategy === "least-connections" && upstream.active < best.active)) {
+			best = upstream;
+			bestIdx = idx;
+		}
+		if (pool.strategy === "round-robin") {
+			break;
+		}
+	}
+	if (best) {
+		pool.next = (bestIdx + 1) % count;
+	}
+	return best;
+}
+
+/**
+ * Builds the header fields of the forwarded request.
+ */
+function forwardedHeaders(req: HTTPReq, upstream: Upstream, options: ProxyOptions): Headers {
+	const headers = withoutHopByHop(req.headers);
+	// the server already answered the expectation
+	headers.delete("Expect");
+	headers.delete("Content-Length");
+
+	const proto = req.tls ? "https" : "http";
+	const host = req.headers.get("Host");
+	const address = req.remote ? req.remote.address : "";
+	if (address) {
+		const forwardedFor = headers.get("X-Forwarded-For");
+		headers.set("X-Forwarded-For", forwardedFor ? `${forwardedFor}, ${address}` : address);
+	}
+	headers.set("X-Forwarded-Proto", proto);
+	if (host) {
+		headers.set("X-Forwarded-Host", host);
+	}
+	// an IPv6 address is quoted in brackets (RFC 7239, section 6)
+	const node = address.includes(":") ? `"[${address}]"` : address || "unknown";
+	let element = `for=${node};proto=${proto}`;
+	if (host) {
+		element += `;host="${host.replace(/["\\]/g, "\\$&")}"`;
+	}
+	headers.append("Forwarded", element);
+
+	if (!options.preserveHost || !host) {
+		headers.set("Host", upstream.host);
+	}
+	return headers;
+}
+
+/**
+ * Wraps the response of an upstream. The upstream stays counted as active
+ * until the body is fully sent or aborted.
+ */
+function proxiedResponse(req: HTTPReq, code: number, fields: Headers, source: BodyReader, upstream: Upstream): HTTPRes {
+	const headers = withoutHopByHop(fields);
+	const trailers = new Headers();
+	let done = false;
+	const finish = (): void => {
+		if (!done) {
+			done = true;
+			upstream.active--;
+		}
+	};
+
+	// the length of the response to a HEAD request is the one of the upstream
+	const length = req.method === "HEAD" ? fields.getInt("Content-Length") : null;
+	const body: BodyReader = {
+		length: length !== null && !Number.isNaN(length) ? length : source.length,
+		read: async (): Promise<Buffer> => {
+			const data = await source.read();
+			if (data.length === 0) {
+				for (const [name, value] of source.trailers ? source.trailers.entries() : []) {
+					trailers.append(name, value);
+				}
+				finish();
+			}
+			return data;
+		},
+		close: async (): Promise<void> => {
+			finish();
+			if (source.close) {
+				await source.close();
+			}
+		},
+	};
+	return { code: code, headers: headers, body: body, trailers: trailers };
+}
+
+/**
+ * Copies header fields without the hop-by-hop ones, including those listed in
+ * the Connection field.
+ */
+function withoutHopByHop(fields: Headers): Headers {
+	const listed = fields.getList("Connection").map((name) => name.toLowerCase());
+	const headers = new Headers();
+	for (const [name, value] of fields.entries()) {
+		const key = name.toLowerCase();
+		if (!kHopByHop.includes(key) && !listed.includes(key)) {
+			headers.append(name, value);
+		}
+	}
+	return headers;
+}
+
+function isConnectError(error: Error): boolean {
+	const code = (error as NodeJS.ErrnoException).code;
+	return (code !== undefined && kConnectErrors.includes(code))
+		|| (error instanceof TimeoutError && error.message === "connect timeout");
+}
+
+/**
+ * Requests the health path of an upstream on a new connection. Any response
+ * below 500 marks it healthy.
+ */
+async function checkHealth(upstream: Upstream, path: string, timeout: number): Promise<void> {
+	let healthy = false;
+	try {
+		const res = await httpRequest("GET", upstream.origin + path, {}, null, {
+			pool: null,
+			timeout: timeout,
+			connectTimeout: timeout,
+		});
+		if (res.body.close) {
+			await res.body.close();
+		}
+		healthy = res.code < 500;
+	} catch (error) {
+		// unreachable
+	}
+	if (healthy !== upstream.healthy) {
+		customLog(`upstream ${upstream.origin} is ${healthy ? "up" : "down"}`, healthy ? LogLevel.INFO : LogLevel.WARN);
+	}
+	upstream.healthy = healthy;
+}
@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+import { BodyReader } from "../echo/types";
+
+const kFileReadSize = 64 * 1024; // size of the pieces read from files
+
+/**
+ * Creates a `BodyReader` that returns the whole given buffer in a single read.
+ * @param arg0 - The body data.
+ * @returns A `BodyReader` object.
+ */
+export function readerFromMemory(arg0: Buffer): BodyReader {
+	let done = false;
+	return {
+		length: arg0.length,
+		read: async (): Promise<Buffer> => {
+			if (done) {
+				return Buffer.from("");
+			}
+			done = true;
+			return arg0;
+		},
+	};
+}
+
+/**
+ * Creates a `BodyReader` streaming a byte range of an open file.
+ * The file handle is not closed by the reader.
+ * @param file - The open file handle.
+ * @param start - The offset of the first byte to read.
+ * @param end - The offset after the last byte to read.
+ * @returns A `BodyReader` object.
+ */
+export function readerFromFile(
+	file: fs.promises.FileHandle,
+	start: number,
+	end: number
+): BodyReader {
+	let pos = start;
+	return {
+		length: end - start,
+		read: async (): Promise<Buffer> => {
+			if (pos >= end) {
+				return Buffer.from("");
+			}
+			const data = Buffer.alloc(Math.min(kFileReadSize, end - pos));
+			const { bytesRead } = await file.read(data, 0, data.length, pos);
+			if (bytesRead === 0) {
+				throw new Error("Unexpected end of file");
+			}
+			pos += bytesRead;
+			return data.subarray(0, bytesRead);
+		},
+	};
+}
+
+/**
+ * Creates a `BodyReader` returning the data of several readers one after the other.
+ * @param readers - The readers to concatenate.
+ * @returns A `BodyReader` object, of unknown length if one of the readers is.
+ */
+export function readerFromReaders(readers: BodyReader[]): BodyReader {
+	let idx = 0;
+	const unknown = readers.some((r) => r.length < 0);
+	return {
+		length: unknown ? -1 : readers.reduce((total, r) => total + r.length, 0),
+		read: async (): Promise<Buffer> => {
+			while (idx < readers.length) {
+				const data = await readers[idx].read();
+				if (data.length > 0) {
+					return data;
+				}
+				idx++;
+			}
+			return Buffer.from("");
+		},
+		close: async (): Promise<void> => {
+			for (const r of readers) {
+				if (r.close) {
+					await r.close();
+				}
+			}
+		},
+	};
+}
+
+/**
+ * Creates a `BodyReader` returning a string encoded in a single read.
+ * @param text - The body text.
+ * @param encoding - The encoding of the text.
+ * @returns A `BodyReader` object.
+ */
+export function readerFromString(text: string, encoding: BufferEncoding = "utf8"): BodyReader {
+	return readerFromMemory(Buffer.from(text, encoding));
+}
+
+/**
+ * Creates a `BodyReader` returning the items of an async iterable, e.g. an
+ * async generator. The strings are encoded in UTF-8 and the empty items skipped.
+ * The iterable is only advanced when the body is read.
+ * @param iterable - The pieces of the body.
+ * @returns A `BodyReader` object of unknown length.
+ */
+export function readerFromIterable(iterable: AsyncIterable<Buffer | string>): BodyReader {
+	const it = iterable[Symbol.asyncIterator]();
+	let done = false;
+	return {
+		length: -1,
+		read: async (): Promise<Buffer> => {
+			while (!done) {
+				const item = await it.next();
+				if (item.done) {
+					done = true;
+					break;
+				}
+				const data = typeof item.value === "string" ? Buffer.from(item.value) : item.value;
+				if (data.length > 0) {
+					return data;
+				}
+			}
+			return Buffer.from("");
+		},
+		close: async (): Promise<void> => {
+			// lets a generator run its finally blocks when the body is not fully read
+			if (!done && it.return) {
+				done = true;
+				await it.return();
+			}
+		},
+	};
+}
+
+/**
+ * Creates a `BodyReader` returning the data of a Node readable stream. The
+ * stream is paused while the connection is busy and destroyed on close.
+ * @param stream - The readable stream.
+ * @returns A `BodyReader` object of unknown length.
+ */
+export function readerFromStream(stream: Readable): BodyReader {
+	const reader = readerFromIterable(stream);
+	return {
+		length: -1,
+		read: reader.read,
+		close: async (): Promise<void> => {
+			stream.destroy();
+		},
+	};
+}
+
+/**
+ * Converts the common kinds of body into a `BodyReader`.
+ * @param body - The body, as a reader, a buffer, a string, a readable stream or
+ * an async iterable.
+ * @returns A `BodyReader` object.
+ */
+export function bodyReader(body: BodyReader | Buffer | string | Readable | AsyncIterable<Buffer | string>): BodyReader {
+	if (typeof body === "string") {
+		return readerFromString(body);
+	}
+	if (Buffer.isBuffer(body)) {
+		return readerFromMemory(body);
+	}
+	if (body instanceof Readable) {
+		return readerFromStream(body);
+	}
+	if (Symbol.asyncIterator in body) {
+		return readerFromIterable(body as AsyncIterable<Buffer | string>);
+	}
+	return body as BodyReader;
+}
@@ -0,0 +1,164 @@
+/**
+ * This file contains the parsing of the request-target (RFC 9112, section 3.2).
+ * The origin-form and absolute-form are split into a normalized path and a
+ * query, the authority-form is accepted for CONNECT only and the asterisk-form
+ * for OPTIONS only.
+ *
+ * @module requestTarget
+ */
+import { HTTPError, QueryParams, RequestURL } from "../echo/types";
+
+const kSchemes = ["http", "https"];
+
+/**
+ * Parses the request-target of a request line.
+ * @param target - The request-target as sent by the client.
+ * @param method - The method of the request.
+ * @returns The structured URL, without the host if it is not in the target.
+ * @throws {HTTPError} If the target is malformed or its form does not fit the method.
+ */
+export function parseRequestTarget(target: string, method: string): RequestURL {
+	// only visible ASCII characters are allowed, a fragment is never sent
+	if (target.length === 0 || /[^\x21-\x7e]/.test(target) || target.includes("#")) {
+		throw new HTTPError(400, "Bad URI");
+	}
+
+	if (method === "CONNECT") {
+		const authority = parseAuthority(target);
+		if (authority.port === null) {
+			throw new HTTPError(400, "Bad URI");
+		}
+		return { form: "authority", scheme: null, ...authority, path: "", pathname: "", search: "" };
+	}
+
+	if (target === "*") {
+		if (method !== "OPTIONS") {
+			throw new HTTPError(400, "Bad URI");
+		}
+		return { form: "asterisk", scheme: null, host: null, port: null, path: "", pathname: "", search: "" };
+	}
+
+	if (target.startsWith("/")) {
+		return { form: "origin", scheme: null, host: null, port: null, ...parsePathAndQuery(target) };
+	}
+
+	const m = /^([A-Za-z][A-Za-z0-9+.-]*):\/\/([^/?]*)(.*)$/.exec(target);
+	if (!m || !kSchemes.includes(m[1].toLowerCase())) {
+		throw new HTTPError(400, "Bad URI");
+	}
+	const rest = m[3].startsWith("?") || m[3].length === 0 ? "/" + m[3] : m[3];
+	return {
+		form: "absolute",
+		scheme: m[1].toLowerCase(),
+		...parseAuthority(m[2]),
+		...parsePathAndQuery(rest),
+	};
+}
+
+/**
+ * Parses an authority, `host[:port]`, as found in the request-target or the
+ * `Host` header. The user information is rejected.
+ * @param value - The authority.
+ * @returns The lower-cased host and the port, null if absent.
+ * @throws {HTTPError} If the authority is malformed.
+ */
+export function parseAuthority(value: string): { host: string, port: number | null } {
+	const m = /^(\[[0-9A-Fa-f:.]+\]|[A-Za-z0-9\-._~!$&'()*+,;=%]+)(?::(\d{0,5}))?$/.exec(value);
+	if (!m) {
+		throw new HTTPError(400, "Bad authority");
+	}
+	// an empty port is the same as no port
+	const port = m[2] ? parseInt(m[2], 10) : null;
+	if (port !== null && port > 65535) {
+		throw new HTTPError(400, "Bad authority");
+	}
+	return { host: m[1].toLowerCase(), port: port };
+}
+
+/**
+ * Parses a query string into its parameters. A `+` stands for a space and a
+ * parameter without `=` has an empty value. The names cannot collide with the
+ * properties of `Object.prototype`.
+ * @param search - The query, without the "?".
+ * @returns The values of the parameters by name.
+ * @throws {HTTPError} If a name or a value is not correctly percent-encoded.
+ */
+export function parseQuery(search: string): QueryParams {
+	const query: QueryParams = Object.create(null);
+	for (const pair of search.split("&")) {
+		if (pair.length === 0) {
+			continue;
+		}
+		const idx = pair.indexOf("=");
+		const name = decodeQueryComponent(idx < 0 ? pair : pair.slice(0, idx));
+		const value = idx < 0 ? "" : decodeQueryComponent(pair.slice(idx + 1));
+		(query[name] = query[name] || []).push(value);
+	}
+	return query;
+}
+
+/**
+ * Splits an absolute path and its query, and normalizes the path.
+ */
+function parsePathAndQuery(target: string): { path: string, pathname: string, search: string } {
+	const idx = target.indexOf("?");
+	const rawPath = idx < 0 ? target : target.slice(0, idx);
+	const path = removeDotSegments(normalizeEscapes(rawPath));
+	let pathname: string;
+	try {
+		pathname = decodeURIComponent(path);
+	} catch (error) {
+		throw new HTTPError(400, "Bad URI");
+	}
+	if (pathname.includes("\0")) {
+		throw new HTTPError(400, "Bad URI");
+	}
+	return { path: path, pathname: pathname, search: idx < 0 ? "" : target.slice(idx + 1) };
+}
+
+/**
+ * Decodes the percent-encoded unreserved characters and upper-cases the other
+ * escapes, so that equivalent paths have the same form.
+ */
+function normalizeEscapes(path: string): string {
+	if (/%(?![0-9A-Fa-f]{2})/.test(path)) {
+		throw new HTTPError(400, "Bad URI");
+	}
+	return path.replace(/%([0-9A-Fa-f]{2})/g, (escape, hex: string) => {
+		const c = String.fromCharCode(parseInt(hex, 16));
+		return /[A-Za-z0-9\-._~]/.test(c) ? c : escape.toUpperCase();
+	});
+}
+
+/**
+ * Resolves the "." and ".." segments of an absolute path (RFC 3986, section 5.2.4).
+ * A path can never go above the root.
+ */
+function removeDotSegments(path: string): string {
+	const segments = path.split("/").slice(1);
+	const output: string[] = [];
+	for (let i = 0; i < segments.length; i++) {
+		const segment = segments[i];
+		const last = i === segments.length - 1;
+		if (segment === "." || segment === "..") {
+			if (segment === "..") {
+				output.pop();
+			}
+			// "/a/." and "/a/b/.." designate a directory
+			if (last) {
+				output.push("");
+			}
+			continue;
+		}
+		output.push(segment);
+	}
+	return "/" + output.join("/");
+}
+
+function decodeQueryComponent(s: string): string {
+	try {
+		return decodeURIComponent(s.replace(/\+/g, " "));
+	} catch (error) {
+		throw new HTTPError(400, "Bad query");
+	}
+}
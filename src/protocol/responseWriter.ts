@@ -0,0 +1,141 @@
+/**
+ * This file contains the push-based response API.
+ * The producer writes the head and the body data with a `ResponseWriter`, and the
+ * server pulls the data through the `BodyReader` of the response like any other
+ * body, so the framing is the same. A write resolves once the server has written
+ * the data to the connection, which slows the producer down to the client.
+ *
+ * @module responseWriter
+ */
+import { BodyReader, HTTPRes, ResponseWriter } from "../echo/types";
+import { Headers } from "./headers";
+
+/**
+ * Creates a response produced by pushing data.
+ * The response is returned as soon as the head is set or the first data is
+ * written, while the producer keeps running. A body not ended by the producer
+ * is ended when it returns.
+ * @param producer - The function writing the response.
+ * @returns The HTTP response, of unknown length.
+ * @throws {Error} The error of the producer if it fails before the head; after
+ * it, the error aborts the response.
+ */
+export function streamResponse(producer: (res: ResponseWriter) => Promise<void>): Promise<HTTPRes> {
+	return new Promise<HTTPRes>((resolve, reject) => {
+		const queue: Array<{ data: Buffer, written: () => void, aborted: (e: Error) => void }> = [];
+		let code = 200;
+		let headers = new Headers();
+		const trailers = new Headers();
+		let started = false;
+		let ended = false;
+		let err: Error | null = null;
+		// set when the server stops reading the body
+		let aborted: Error | null = null;
+		// the writer of the data being written to the connection
+		let inFlight: (() => void) | null = null;
+		// wakes the reader up
+		let notify: (() => void) | null = null;
+
+		const wake = (): void => {
+			if (notify) {
+				notify();
+				notify = null;
+			}
+		};
+
+		const body: BodyReader = {
+			length: -1,
+			read: async (): Promise<Buffer> => {
+				// the previous data is written, its writer can go on
+				if (inFlight) {
+					inFlight();
+					inFlight = null;
+				}
+				while (queue.length === 0 && !ended && !err) {
+					await new Promise<void>((resolve) => {
+						notify = resolve;
+					});
+				}
+				if (err) {
+					throw err;
+				}
+				const item = queue.shift();
+				if (!item) {
+					return Buffer.from("");
+				}
+				inFlight = item.written;
+				return item.data;
+			},
+			close: async (): Promise<void> => {
+				// the writes still waiting will never be written
+				aborted = new Error("response aborted");
+				ended = true;
+				for (const item of queue.splice(0)) {
+					item.aborted(aborted);
+				}
+				if (inFlight) {
+					inFlight();
+					inFlight = null;
+				}
+			},
+		};
+
+		const start = (): void => {
+			if (!started) {
+				started = true;
+				resolve({ code: code, headers: headers, body: body, trailers: trailers });
+			}
+		};
+
+		const write = async (data: Buffer | string): Promise<void> => {
+			if (ended) {
+				throw aborted || new Error("write after end");
+			}
+			start();
+			const buf = typeof data === "string" ? Buffer.from(data) : data;
+			if (buf.length === 0) {
+				return;
+			}
+			await new Promise<void>((written, aborted) => {
+				queue.push({ data: buf, written: written, aborted: aborted });
+				wake();
+			});
+		};
+
+		const writer: ResponseWriter = {
+			writeHead: (status: number, fields?: Headers): void => {
+				if (started) {
+					throw new Error("head already sent");
+				}
+				code = status;
+				headers = fields || headers;
+				start();
+			},
+			write: write,
+			end: async (data?: Buffer | string): Promise<void> => {
+				if (ended) {
+					return;
+				}
+				if (data !== undefined) {
+					await write(data);
+				}
+				start();
+				ended = true;
+				wake();
+			},
+			trailers: trailers,
+		};
+
+		producer(writer).then(
+			() => writer.end(),
+			(error: Error) => {
+				if (!started) {
+					reject(error);
+					return;
+				}
+				err = error;
+				wake();
+			}
+		);
+	});
+}
@@ -0,0 +1,177 @@
+/**
+ * This file contains a declarative router for the HTTP server.
+ * Handlers are registered by method and path pattern, where a pattern segment
+ * can be a literal, a named parameter (`/users/:id`) or a trailing wildcard
+ * (`/static/*`) matching the rest of the path.
+ *
+ * @module router
+ */
+import {
+	BodyReader,
+	HTTPError,
+	HTTPHandler,
+	HTTPReq,
+	HTTPRes,
+	Route,
+	RouteHandler,
+	RouteParams,
+	Router,
+} from "../echo/types";
+import { readerFromMemory } from "./readers";
+import { Headers } from "./headers";
+
+/**
+ * Creates an empty router.
+ * @returns A router without any route.
+ */
+export function createRouter(): Router {
+	return { routes: [] };
+}
+
+/**
+ * Registers a handler for the given method and path pattern.
+ * Routes are matched in registration order.
+ * @param router - The router to add the route to.
+ * @param method - The HTTP method handled by the route.
+ * @param pattern - The path pattern, e.g. `/users/:id` or `/static/*`.
+ * @param handler - The handler called with the extracted path parameters.
+ * @throws {Error} If the pattern is malformed.
+ */
+export function addRoute(
+	router: Router,
+	method: string,
+	pattern: string,
+	handler: RouteHandler
+): void {
+	if (!pattern.startsWith("/")) {
+		throw new Error(`Route pattern "${pattern}" must start with "/"`);
+	}
+	const segments = splitPath(pattern);
+	const wildcard = segments.indexOf("*");
+	if (wildcard >= 0 && wildcard !== segments.length - 1) {
+		throw new Error(`Wildcard must be the last segment of "${pattern}"`);
+	}
+	router.routes.push({
+		method: method.toUpperCase(),
+		segments: segments,
+		handler: handler,
+	});
+}
+
+/**
+ * Creates a request handler dispatching the requests to the routes of the router.
+ * Unknown paths are answered with 404, and known paths requested with another
+ * method with 405 and an `Allow` header. HEAD requests are answered by the GET
+ * route of the path when no HEAD route is registered. `OPTIONS *` is answered
+ * with all the methods of the router.
+ * @param router - The router to dispatch the requests with.
+ * @returns The request handler.
+ */
+export function routerHandler(router: Router): HTTPHandler {
+	return async (req: HTTPReq, body: BodyReader): Promise<HTTPRes> => {
+		if (req.url.form === "asterisk") {
+			const methods = router.routes.map((r) => r.method);
+			if (methods.includes("GET")) {
+				methods.push("HEAD");
+			}
+			const res = textResponse(200, "");
+			res.headers.set("Allow", unique(["OPTIONS", ...methods]).join(", "));
+			return res;
+		}
+		const path = splitPath(req.url.path);
+
+		const allowed: string[] = [];
+		let headFallback: { route: Route; params: RouteParams } | null = null;
+		for (const route of router.routes) {
+			const params = matchRoute(route, path);
+			if (!params) {
+				continue;
+			}
+			if (route.method === req.method) {
+				return route.handler(req, body, params);
+			}
+			if (req.method === "HEAD" && route.method === "GET" && !headFallback) {
+				headFallback = { route: route, params: params };
+			}
+			allowed.push(route.method);
+		}
+
+		if (headFallback) {
+			// the server sends the headers of the GET response without its body
+			return headFallback.route.handler(req, body, headFallback.params);
+		}
+
+		if (allowed.length === 0) {
+			return textResponse(404, "Not Found\n");
+		}
+
+		if (allowed.includes("GET") && !allowed.includes("HEAD")) {
+			allowed.push("HEAD");
+		}
+		const res = textResponse(405, "Method Not Allowed\n");
+		res.headers.set("Allow", unique(allowed).join(", "));
+		return res;
+	};
+}
+
+/**
+ * Matches a path against a route pattern.
+ * @param route - The route to match.
+ * @param path - The request path split into segments.
+ * @returns The extracted parameters, or null if the path does not match.
+ * @throws {HTTPError} If a parameter is not correctly percent-encoded.
+ */
+function matchRoute(route: Route, path: string[]): RouteParams | null {
+	const params: RouteParams = {};
+	for (let i = 0; i < route.segments.length; i++) {
+		const segment = route.segments[i];
+		if (segment === "*") {
+			params["*"] = decodeParam(path.slice(i).join("/"));
+			return params;
+		}
+		if (i >= path.length) {
+			return null;
+		}
+		if (segment.startsWith(":")) {
+			params[segment.slice(1)] = decodeParam(path[i]);
+		} else if (segment !== path[i]) {
+			return null;
+		}
+	}
+	return route.segments.length === path.length ? params : null;
+}
+
+/**
+ * Splits a path into its non-empty segments.
+ * @param path - The path to split.
+ * @returns The segments of the path.
+ */
+function splitPath(path: string): string[] {
+	return path.split("/").filter((s) => s.length > 0);
+}
+
+function decodeParam(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch (error) {
+		throw new HTTPError(400, "Bad URI");
+	}
+}
+
+function unique(values: string[]): string[] {
+	return values.filter((v, i) => values.indexOf(v) === i);
+}
+
+/**
+ * Creates a plain text response.
+ * @param code - The status code.
+ * @param text - The body of the response.
+ * @returns The HTTP response.
+ */
+export function textResponse(code: number, text: string): HTTPRes {
+	return {
+		code: code,
+		headers: new Headers([["Content-Type", "text/plain"]]),
+		body: readerFromMemory(Buffer.from(text)),
+	};
+}
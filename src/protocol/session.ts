@@ -0,0 +1,242 @@
+/**
+ * This file contains the sessions.
+ * The sessions middleware loads the session named by a signed cookie into
+ * `req.session` before the handler runs, and saves it to its store once the
+ * handler returns, setting the cookie of a new session on the response. The
+ * stores keep the data as JSON, in memory or in one file per session, and drop
+ * the sessions unused for longer than their lifetime.
+ *
+ * @module session
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Middleware, Session, SessionData, SessionStore } from "../echo/types";
+import { clearCookie, CookieOptions, setCookie, signCookie, unsignCookie } from "./cookies";
+import { customLog, LogLevel } from "../utils";
+
+const kDefaultTTL = 24 * 60 * 60 * 1000;
+const kSweepInterval = 60 * 1000; // time between two scans for expired sessions, in ms
+
+export type SessionOptions = {
+	// the keys signing the cookie, the first one signs the new cookies
+	secret: string | string[],
+	store?: SessionStore,
+	// the name of the cookie
+	name?: string,
+	// the lifetime of an unused session, in milliseconds
+	ttl?: number,
+	// HttpOnly, on "/", SameSite=Lax and Secure over TLS by default; without
+	// maxAge or expires, the cookie lasts until the browser is closed
+	cookie?: CookieOptions,
+};
+
+export type SessionStoreOptions = {
+	// time between two scans for expired sessions, in milliseconds
+	sweepInterval?: number,
+};
+
+/**
+ * Creates a middleware giving a session to every request. A new session is only
+ * stored, and its cookie only set, once the handler puts data in it. The data
+ * must be serializable to JSON.
+ * @param options - The options of the sessions.
+ * @returns The middleware.
+ * @throws {Error} If no secret is given.
+ */
+export function sessions(options: SessionOptions): Middleware {
+	const secrets = typeof options.secret === "string" ? [options.secret] : options.secret;
+	if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+		throw new Error("A session secret is required");
+	}
+	const store = options.store || memoryStore();
+	const name = options.name || "sid";
+	const ttl = options.ttl || kDefaultTTL;
+
+	return async (req, body, next) => {
+		const cookie: CookieOptions = { path: "/", httpOnly: true, sameSite: "Lax", secure: !!req.tls, ...options.cookie };
+		const signed = req.cookies[name];
+		const id = signed === undefined ? null : unsignCookie(signed, secrets);
+		const data = id === null ? null : await store.get(id);
+		const session: Session = {
+			id: id !== null && data !== null ? id : newSessionId(),
+			data: data || {},
+			isNew: data === null,
+			destroyed: false,
+			regenerate: false,
+		};
+		const before = JSON.stringify(session.data);
+		req.session = session;
+
+		const res = await next(req, body);
+
+		if (session.destroyed) {
+			if (!session.isNew) {
+				await store.destroy(session.id);
+			}
+			if (signed !== undefined) {
+				clearCookie(res, name, cookie);
+			}
+			return res;
+		}
+		const changed = JSON.stringify(session.data) !== before;
+		if (session.isNew && !changed) {
+			return res;
+		}
+		let sendCookie = session.isNew;
+		if (session.regenerate && !session.isNew) {
+			// the old id may be known to an attacker
+			await store.destroy(session.id);
+			session.id = newSessionId();
+			sendCookie = true;
+		}
+		// saved even when unchanged, which extends its lifetime
+		await store.set(session.id, session.data, Date.now() + ttl);
+		if (sendCookie) {
+			setCookie(res, name, signCookie(session.id, secrets[0]), cookie);
+		}
+		return res;
+	};
+}
+
+/**
+ * Marks a session to be deleted once the handler returns.
+ * @param session - The session of the request.
+ */
+export function destroySession(session: Session): void {
+	session.destroyed = true;
+}
+
+/**
+ * Marks a session to move to a new id once the handler returns, keeping its
+ * data. It prevents the fixation of a session id across a login.
+ * @param session - The session of the request.
+ */
+export function regenerateSession(session: Session): void {
+	session.regenerate = true;
+}
+
+/**
+ * Creates a store keeping the sessions in memory. The data is copied as JSON so
+ * the handler's changes are only seen once saved.
+ * @param options - The options of the store.
+ * @returns The store.
+ */
+export function memoryStore(options: SessionStoreOptions = {}): SessionStore {
+	const entries = new Map<string, { data: string, expires: number }>();
+	const timer = setInterval(() => {
+		const now = Date.now();
+		entries.forEach((entry, id) => {
+			if (entry.expires <= now) {
+				entries.delete(id);
+			}
+		});
+	}, options.sweepInterval || kSweepInterval);
+	// the sweeps do not keep the process alive
+	timer.unref();
+
+	return {
+		get: async (id: string): Promise<SessionData | null> => {
+			const entry = entries.get(id);
+			if (!entry) {
+				return null;
+			}
+			if (entry.expires <= Date.now()) {
+				entries.delete(id);
+				return null;
+			}
+			return JSON.parse(entry.data);
+		},
+		set: async (id: string, data: SessionData, expires: number): Promise<void> => {
+			entries.set(id, { data: JSON.stringify(data), expires: expires });
+		},
+		destroy: async (id: string): Promise<void> => {
+			entries.delete(id);
+		},
+	};
+}
+
+/**
+ * Creates a store keeping each session in a JSON file of a directory, so that
+ * the sessions survive a restart. A file is replaced atomically when saved.
+ * @param dir - The directory of the files, created if needed.
+ * @param options - The options of the store.
+ * @returns The store.
+ */
+export function fileStore(dir: string, options: SessionStoreOptions = {}): SessionStore {
+	const root = path.resolve(dir);
+
+	const fileOf = (id: string): string => {
+		// the ids are only made of base64url characters, never of a path
+		if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+			throw new Error("Invalid session id");
+		}
+		return path.join(root, `${id}.json`);
+	};
+
+	const read = async (file: string): Promise<{ data: SessionData, expires: number } | null> => {
+		try {
+			return JSON.parse(await fs.promises.readFile(file, "utf8"));
+		} catch (error) {
+			// missing, or being replaced on a platform without atomic rename
+			return null;
+		}
+	};
+
+	const remove = async (file: string): Promise<void> => {
+		try {
+			await fs.promises.unlink(file);
+		} catch (error) {
+			// already removed
+		}
+	};
+
+	const timer = setInterval(async () => {
+		try {
+			const now = Date.now();
+			for (const name of await fs.promises.readdir(root)) {
+				if (!name.endsWith(".json")) {
+					continue;
+				}
+				const entry = await read(path.join(root, name));
+				if (entry && entry.expires <= now) {
+					await remove(path.join(root, name));
+				}
+			}
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				customLog(`session sweep failed: ${error}`, LogLevel.ERROR);
+			}
+		}
+	}, options.sweepInterval || kSweepInterval);
+	timer.unref();
+
+	return {
+		get: async (id: string): Promise<SessionData | null> => {
+			const file = fileOf(id);
+			const entry = await read(file);
+			if (!entry) {
+				return null;
+			}
+			if (entry.expires <= Date.now()) {
+				await remove(file);
+				return null;
+			}
+			return entry.data;
+		},
+		set: async (id: string, data: SessionData, expires: number): Promise<void> => {
+			const file = fileOf(id);
+			const tmp = `${file}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+			await fs.promises.mkdir(root, { recursive: true });
+			await fs.promises.writeFile(tmp, JSON.stringify({ data: data, expires: expires }));
+			await fs.promises.rename(tmp, file);
+		},
+		destroy: async (id: string): Promise<void> => {
+			await remove(fileOf(id));
+		},
+	};
+}
+
+function newSessionId(): string {
+	return crypto.randomBytes(24).toString("base64url");
+}
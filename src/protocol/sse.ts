@@ -0,0 +1,182 @@
+/**
+ * This file contains the Server-Sent Events responses (the `text/event-stream`
+ * format of the HTML standard).
+ * A route returns `sseResponse`, whose session pushes the events with `sseSend`
+ * through a response body that only ends with the session. The stream is closed
+ * as soon as the connection of the client ends or fails, or the server closes.
+ * Comment lines are sent as heartbeats while the session is quiet, which keeps
+ * the intermediaries from timing the response out.
+ *
+ * @module sse
+ */
+import { HTTPReq, HTTPRes, SSEEvent, SSEStream } from "../echo/types";
+import { Headers } from "./headers";
+import { onShutdown } from "./httpServerApi";
+import { streamResponse } from "./responseWriter";
+import { customLog, LogLevel } from "../utils";
+
+const kHeartbeatInterval = 15 * 1000;
+
+export type SSEOptions = {
+	// time between two heartbeats, in milliseconds, 0 to disable them
+	heartbeat?: number,
+	// the reconnection delay sent to the client first, in milliseconds
+	retry?: number,
+};
+
+/**
+ * Creates an event stream response. The session runs once the head is sent and
+ * the stream ends when it returns; a session waiting for events from elsewhere
+ * can wait for `stream.done` to know when the client is gone.
+ * @param req - The request, for its `Last-Event-ID`.
+ * @param session - The function sending the events.
+ * @param options - The options of the stream.
+ * @returns The response, of unknown length.
+ */
+export function sseResponse(
+	req: HTTPReq,
+	session: (stream: SSEStream) => Promise<void>,
+	options: SSEOptions = {}
+): Promise<HTTPRes> {
+	const heartbeat = options.heartbeat === undefined ? kHeartbeatInterval : options.heartbeat;
+
+	return streamResponse(async (writer) => {
+		writer.writeHead(200, new Headers([
+			["Content-Type", "text/event-stream"],
+			["Cache-Control", "no-cache"],
+		]));
+		let finish = (): void => {};
+		const done = new Promise<void>((resolve) => {
+			finish = resolve;
+		});
+		const stream: SSEStream = {
+			writer: writer,
+			lastEventId: req.headers.get("Last-Event-ID"),
+			closed: false,
+			pending: 0,
+			done: done,
+			finish: finish,
+		};
+
+		const timer = heartbeat > 0 ? setInterval(() => {
+			// a heartbeat is not queued behind a write the client has not taken yet
+			if (stream.pending === 0) {
+				sseComment(stream, "heartbeat");
+			}
+		}, heartbeat) : null;
+		const stop = (): void => {
+			if (timer) {
+				clearInterval(timer);
+			}
+			sseClose(stream);
+		};
+
+		const removeHook = onShutdown(req, stop);
+		// the socket is not read during the response, its end is still reported
+		const conn = req.conn;
+		const events = ["end", "error", "close"];
+		if (conn) {
+			for (const event of events) {
+				conn.socket.on(event, stop);
+			}
+			if (conn.ended || conn.err || conn.socket.destroyed) {
+				stop();
+			}
+		}
+
+		try {
+			if (options.retry !== undefined) {
+				await sseSend(stream, { data: "", retry: options.retry });
+			}
+			await session(stream);
+		} finally {
+			removeHook();
+			if (conn) {
+				for (const event of events) {
+					conn.socket.removeListener(event, stop);
+				}
+			}
+			stop();
+		}
+	});
+}
+
+/**
+ * Sends an event. Nothing is sent once the stream is closed.
+ * @param stream - The event stream.
+ * @param event - The event.
+ * @throws {Error} If the id or the type of the event spans several lines.
+ */
+export async function sseSend(stream: SSEStream, event: SSEEvent): Promise<void> {
+	await writeEvent(stream, encodeEvent(event));
+}
+
+/**
+ * Sends a comment line, ignored by the client.
+ * @param stream - The event stream.
+ * @param text - The text of the comment.
+ */
+export async function sseComment(stream: SSEStream, text: string = ""): Promise<void> {
+	await writeEvent(stream, text.split(/\r\n|\r|\n/).map((line) => `: ${line}\n`).join("") + "\n");
+}
+
+/**
+ * Closes the stream. The session should return soon after, which ends the response.
+ * @param stream - The event stream.
+ */
+export function sseClose(stream: SSEStream): void {
+	if (!stream.closed) {
+		stream.closed = true;
+		stream.finish();
+	}
+}
+
+/**
+ * Encodes an event in the `text/event-stream` format. Each line of the data is
+ * sent as its own `data` field, the client joins them with line feeds.
+ * @param event - The event.
+ * @returns The fields of the event followed by the empty line ending it.
+ * @throws {Error} If the id or the type of the event spans several lines.
+ */
+export function encodeEvent(event: SSEEvent): string {
+	let out = "";
+	if (event.id !== undefined) {
+		// a NUL in the id makes the client ignore it
+		if (/[\r\n\0]/.test(event.id)) {
+			throw new Error("Invalid event id");
+		}
+		out += `id: ${event.id}\n`;
+	}
+	if (event.event !== undefined) {
+		if (/[\r\n]/.test(event.event)) {
+			throw new Error("Invalid event type");
+		}
+		out += `event: ${event.event}\n`;
+	}
+	if (event.retry !== undefined) {
+		out += `retry: ${Math.max(Math.floor(event.retry), 0)}\n`;
+	}
+	// an event with only a retry field carries no data
+	if (event.data.length > 0 || event.retry === undefined) {
+		for (const line of event.data.split(/\r\n|\r|\n/)) {
+			out += `data: ${line}\n`;
+		}
+	}
+	return out + "\n";
+}
+
+async function writeEvent(stream: SSEStream, text: string): Promise<void> {
+	if (stream.closed) {
+		return;
+	}
+	stream.pending++;
+	try {
+		await stream.writer.write(text);
+	} catch (error) {
+		// the server stopped sending the body, the client is gone
+		customLog(`event stream closed: ${error}`, LogLevel.DEBUG);
+		sseClose(stream);
+	} finally {
+		stream.pending--;
+	}
+}
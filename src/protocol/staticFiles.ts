@@ -0,0 +1,382 @@
+/**
+ * This file contains a handler serving static files from a directory.
+ * Files are streamed from their file handle, with support for conditional
+ * requests (`ETag`, `Last-Modified`) and single or multipart byte ranges.
+ *
+ * @module staticFiles
+ */
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { BodyReader, HTTPReq, HTTPRes, RouteHandler, RouteParams } from "../echo/types";
+import { Headers } from "./headers";
+import { readerFromFile, readerFromMemory, readerFromReaders } from "./readers";
+import { textResponse } from "./router";
+import { baseETag } from "./compression";
+
+const kMaxRanges = 16; // more ranges than this are ignored and the whole file is sent
+const kMimeTypes: { [ext: string]: string } = {
+	".html": "text/html; charset=utf-8",
+	".htm": "text/html; charset=utf-8",
+	".css": "text/css; charset=utf-8",
+	".js": "text/javascript; charset=utf-8",
+	".mjs": "text/javascript; charset=utf-8",
+	".json": "application/json",
+	".txt": "text/plain; charset=utf-8",
+	".md": "text/markdown; charset=utf-8",
+	".csv": "text/csv; charset=utf-8",
+	".xml": "application/xml",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".ico": "image/x-icon",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".mp3": "audio/mpeg",
+	".mp4": "video/mp4",
+	".webm": "video/webm",
+	".pdf": "application/pdf",
+	".zip": "application/zip",
+	".gz": "application/gzip",
+	".wasm": "application/wasm",
+};
+
+export type StaticOptions = {
+	// render a listing for directories without index.html
+	listing?: boolean,
+	// file served for directories
+	index?: string,
+};
+
+type ByteRange = { start: number, end: number }; // end is exclusive
+// a file opened by the first read of one of its readers
+type LazyFile = {
+	reader: (start: number, end: number) => BodyReader,
+	close: () => Promise<void>,
+};
+
+/**
+ * Creates a route handler serving the files of a directory. It must be
+ * registered with a wildcard pattern, e.g. `/static/*`, the wildcard being the
+ * path of the file relative to the root directory.
+ * @param root - The directory to serve the files from.
+ * @param options - The options of the handler.
+ * @returns The route handler.
+ */
+export function serveStatic(root: string, options: StaticOptions = {}): RouteHandler {
+	const rootDir = path.resolve(root);
+	const index = options.index || "index.html";
+
+	return async (req: HTTPReq, body: BodyReader, params: RouteParams): Promise<HTTPRes> => {
+		const rel = params["*"] || "";
+		const filePath = path.resolve(rootDir, "." + path.sep + rel);
+		// block the path traversal outside the root
+		if (rel.includes("\0") || (filePath !== rootDir && !filePath.startsWith(rootDir + path.sep))) {
+			return textResponse(403, "Forbidden\n");
+		}
+
+		const stat = await statOrNull(filePath);
+		if (!stat) {
+			return textResponse(404, "Not Found\n");
+		}
+
+		if (stat.isDirectory()) {
+			const uriPath = req.url.path;
+			if (!uriPath.endsWith("/")) {
+				// relative links of the directory only work with a trailing slash
+				const res = textResponse(301, "Moved Permanently\n");
+				res.headers.set("Location", `${uriPath}/`);
+				return res;
+			}
+			const indexPath = path.join(filePath, index);
+			const indexStat = await statOrNull(indexPath);
+			if (indexStat && indexStat.isFile()) {
+				return serveFile(req, indexPath, indexStat);
+			}
+			if (options.listing) {
+				return listDirectory(uriPath, filePath);
+			}
+			return textResponse(404, "Not Found\n");
+		}
+
+		if (!stat.isFile()) {
+			return textResponse(404, "Not Found\n");
+		}
+		return serveFile(req, filePath, stat);
+	};
+}
+
+/**
+ * Serves a regular file, answering conditional and range requests.
+ * @param req - The HTTP request.
+ * @param filePath - The absolute path of the file.
+ * @param stat - The stats of the file.
+ * @returns The HTTP response.
+ */
+async function serveFile(req: HTTPReq, filePath: string, stat: fs.Stats): Promise<HTTPRes> {
+	const etag = makeETag(stat);
+	const lastModified = stat.mtime.toUTCString();
+	const contentType = kMimeTypes[path.extname(filePath).toLowerCase()] || "application/octet-stream";
+	const headers = new Headers([
+		["ETag", etag],
+		["Last-Modified", lastModified],
+		["Accept-Ranges", "bytes"],
+	]);
+
+	if (notModified(req, etag, stat.mtime)) {
+		return { code: 304, headers: headers, body: readerFromMemory(Buffer.from("")) };
+	}
+
+	let ranges: ByteRange[] | null = null;
+	const rangeHeader = req.headers.get("Range");
+	if (rangeHeader !== null && ifRangeMatches(req, etag, stat.mtime)) {
+		ranges = parseRange(rangeHeader, stat.size);
+	}
+
+	if (ranges && ranges.length === 0) {
+		const res = textResponse(416, "Range Not Satisfiable\n");
+		for (const [name, value] of headers.entries()) {
+			res.headers.set(name, value);
+		}
+		res.headers.set("Content-Range", `bytes */${stat.size}`);
+		return res;
+	}
+
+	// a response dropped before its body is sent holds no file handle
+	const file = lazyFile(filePath);
+
+	if (!ranges) {
+		headers.set("Content-Type", contentType);
+		const reader = file.reader(0, stat.size);
+		reader.close = file.close;
+		return { code: 200, headers: headers, body: reader };
+	}
+
+	if (ranges.length === 1) {
+		const range = ranges[0];
+		headers.set("Content-Type", contentType);
+		headers.set("Content-Range", `bytes ${range.start}-${range.end - 1}/${stat.size}`);
+		const reader = file.reader(range.start, range.end);
+		reader.close = file.close;
+		return { code: 206, headers: headers, body: reader };
+	}
+
+	const boundary = crypto.randomBytes(16).toString("hex");
+	const parts: BodyReader[] = [];
+	for (const range of ranges) {
+		parts.push(readerFromMemory(Buffer.from(
+			`--${boundary}\r\n` +
+			`Content-Type: ${contentType}\r\n` +
+			`Content-Range: bytes ${range.start}-${range.end - 1}/${stat.size}\r\n\r\n`
+		)));
+		parts.push(file.reader(range.start, range.end));
+		parts.push(readerFromMemory(Buffer.from("\r\n")));
+	}
+	parts.push(readerFromMemory(Buffer.from(`--${boundary}--\r\n`)));
+	const reader = readerFromReaders(parts);
+	reader.close = file.close;
+	headers.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+	return { code: 206, headers: headers, body: reader };
+}
+
+/**
+ * Checks the conditional headers of the request. `If-None-Match` takes
+ * precedence over `If-Modified-Since`.
+ * @returns Whether the cached representation of the client is still valid.
+ */
+function notModified(req: HTTPReq, etag: string, mtime: Date): boolean {
+	if (req.method !== "GET" && req.method !== "HEAD") {
+		return false;
+	}
+	if (req.headers.has("If-None-Match")) {
+		const tags = req.headers.getList("If-None-Match");
+		// the weak comparison is used for If-None-Match, the compressed
+		// representations are validated by the tag of the file
+		return tags.some((t) => t === "*" || weakTag(baseETag(t)) === weakTag(etag));
+	}
+	const ifModifiedSince = req.headers.get("If-Modified-Since");
+	if (ifModifiedSince !== null) {
+		const since = Date.parse(ifModifiedSince);
+		// the HTTP dates have a precision of one second
+		return !isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+	}
+	return false;
+}
+
+/**
+ * Checks the `If-Range` header of the request.
+ * @returns Whether the range can be applied to the current representation.
+ */
+function ifRangeMatches(req: HTTPReq, etag: string, mtime: Date): boolean {
+	const value = req.headers.get("If-Range");
+	if (value === null) {
+		return true;
+	}
+	if (value.startsWith("\"") || value.startsWith("W/")) {
+		// the strong comparison is required, a weak tag never matches
+		return !value.startsWith("W/") && value === etag;
+	}
+	const date = Date.parse(value);
+	return !isNaN(date) && Math.floor(mtime.getTime() / 1000) * 1000 === date;
+}
+
+/**
+ * Parses a `Range` header for a representation of the given size.
+ * @param header - The value of the `Range` header.
+ * @param size - The size of the representation.
+ * @returns The satisfiable ranges, empty if none is satisfiable, or null if the
+ * header must be ignored.
+ */
+function parseRange(header: string, size: number): ByteRange[] | null {
+	const m = /^\s*bytes\s*=(.*)$/i.exec(header);
+	if (!m) {
+		return null;
+	}
+	const specs = m[1].split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+	if (specs.length === 0 || specs.length > kMaxRanges) {
+		return null;
+	}
+
+	const ranges: ByteRange[] = [];
+	for (const spec of specs) {
+		const r = /^(\d*)-(\d*)$/.exec(spec);
+		if (!r || (r[1] === "" && r[2] === "")) {
+			return null;
+		}
+		if (r[1] === "") {
+			// suffix range: the last n bytes
+			const n = parseInt(r[2], 10);
+			if (n > 0 && size > 0) {
+				ranges.push({ start: Math.max(size - n, 0), end: size });
+			}
+			continue;
+		}
+		const start = parseInt(r[1], 10);
+		const last = r[2] === "" ? Infinity : parseInt(r[2], 10);
+		if (last < start) {
+			return null;
+		}
+		if (start < size) {
+			ranges.push({ start: start, end: Math.min(last + 1, size) });
+		}
+	}
+	return mergeRanges(ranges);
+}
+
+/**
+ * Merges the overlapping and adjacent ranges, so that no byte is sent twice
+ * (RFC 9110, section 14.3). The ranges are returned in ascending order.
+ * @param ranges - The satisfiable ranges.
+ * @returns The merged ranges.
+ */
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+	const sorted = ranges.slice().sort((a, b) => a.start - b.start);
+	const merged: ByteRange[] = [];
+	for (const range of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			merged.push({ start: range.start, end: range.end });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Creates the readers of a file that is only opened once one of them is read.
+ * The readers share the file handle, released by `close`.
+ * @param filePath - The absolute path of the file.
+ * @returns The lazily opened file.
+ */
+function lazyFile(filePath: string): LazyFile {
+	let file: Promise<fs.promises.FileHandle> | null = null;
+	return {
+		reader: (start: number, end: number): BodyReader => {
+			let reader: BodyReader | null = null;
+			return {
+				length: end - start,
+				read: async (): Promise<Buffer> => {
+					if (!reader) {
+						if (!file) {
+							file = fs.promises.open(filePath, "r");
+						}
+						reader = readerFromFile(await file, start, end);
+					}
+					return reader.read();
+				},
+			};
+		},
+		close: async (): Promise<void> => {
+			if (file) {
+				const opened = file;
+				file = null;
+				// a file that failed to open failed the read already
+				await opened.then((handle) => handle.close(), () => {});
+			}
+		},
+	};
+}
+
+/**
+ * Renders the HTML listing of a directory.
+ * @param uriPath - The request path of the directory, ending with a slash.
+ * @param dirPath - The absolute path of the directory.
+ * @returns The HTTP response.
+ */
+async function listDirectory(uriPath: string, dirPath: string): Promise<HTTPRes> {
+	const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+	entries.sort((a, b) => a.name.localeCompare(b.name));
+	const title = escapeHTML(safeDecode(uriPath));
+	const items = entries.map((e) => {
+		const name = e.isDirectory() ? e.name + "/" : e.name;
+		return `<li><a href="${escapeHTML(encodeURIComponent(e.name))}${e.isDirectory() ? "/" : ""}">${escapeHTML(name)}</a></li>`;
+	});
+	const html =
+		`<!DOCTYPE html>\n<html>\n<head><meta charset="utf-8"><title>Index of ${title}</title></head>\n` +
+		`<body>\n<h1>Index of ${title}</h1>\n<ul>\n` +
+		(uriPath !== "/" ? `<li><a href="../">../</a></li>\n` : "") +
+		items.join("\n") +
+		`\n</ul>\n</body>\n</html>\n`;
+	return {
+		code: 200,
+		headers: new Headers([["Content-Type", "text/html; charset=utf-8"]]),
+		body: readerFromMemory(Buffer.from(html)),
+	};
+}
+
+function makeETag(stat: fs.Stats): string {
+	return `"${stat.size.toString(16)}-${Math.floor(stat.mtime.getTime()).toString(16)}"`;
+}
+
+function weakTag(tag: string): string {
+	return tag.startsWith("W/") ? tag.slice(2) : tag;
+}
+
+async function statOrNull(p: string): Promise<fs.Stats | null> {
+	try {
+		return await fs.promises.stat(p);
+	} catch (error) {
+		return null;
+	}
+}
+
+function escapeHTML(s: string): string {
+	return s
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function safeDecode(s: string): string {
+	try {
+		return decodeURIComponent(s);
+	} catch (error) {
+		return s;
+	}
+}
@@ -0,0 +1,221 @@
+/**
+ * This file contains the CONNECT tunnelling of the forward proxy.
+ * A CONNECT request opens a TCP connection to the requested authority; once the
+ * `200 Connection Established` response is sent, the bytes are copied both ways
+ * between the client and the target, including what the client sent after the
+ * request head. Each copy waits for its write before reading more, so a slow
+ * side slows the other one down. The destination is resolved before it is
+ * checked against the rules, and the tunnel connects to the address checked.
+ *
+ * @module tunnel
+ */
+import * as dns from "dns";
+import * as net from "net";
+import { soConnect, soRead, soWrite } from "../echo/promise_based_api_tcp_server";
+import { DynBuf, Middleware, TCPConn, TimeoutError } from "../echo/types";
+import { bufPop } from "./dynamicBuffer";
+import { Headers } from "./headers";
+import { getReasonFromCode, onShutdown } from "./httpServerApi";
+import { readerFromMemory } from "./readers";
+import { textResponse } from "./router";
+import { customLog, LogLevel } from "../utils";
+
+const kConnectTimeout = 10 * 1000;
+const kTunnelIdleTimeout = 5 * 60 * 1000;
+// the tunnels are meant for TLS, like the SSL_ports of the usual proxies
+const kDefaultAllow = ["*:443"];
+
+export type TunnelOptions = {
+	// destinations allowed, as "host:port" where "*" matches any host or port and
+	// "*.example.com" any subdomain; only port 443 by default
+	allow?: string[],
+	// destinations refused even if allowed
+	deny?: string[],
+	// checks the Basic credentials of Proxy-Authorization, no check if absent
+	authenticate?: (user: string, password: string) => boolean | Promise<boolean>,
+	realm?: string,
+	connectTimeout?: number,
+	// the tunnel is closed when no data crossed it for this long, in milliseconds
+	idleTimeout?: number,
+};
+
+type Tunnel = {
+	idleTimeout: number,
+	// the last time data crossed the tunnel in either direction
+	lastActive: number,
+};
+
+/**
+ * Creates a middleware handling the CONNECT requests. The other requests are
+ * passed on.
+ * @param options - The options of the tunnels.
+ * @returns The middleware.
+ */
+export function connectTunnel(options: TunnelOptions = {}): Middleware {
+	const allow = options.allow || kDefaultAllow;
+	const deny = options.deny || [];
+
+	return async (req, body, next) => {
+		if (req.method !== "CONNECT") {
+			return next(req, body);
+		}
+
+		if (options.authenticate && !(await checkProxyAuth(req.headers.get("Proxy-Authorization"), options.authenticate))) {
+			const res = textResponse(407, "Proxy Authentication Required\n");
+			res.headers.set("Proxy-Authenticate", `Basic realm="${options.realm || "proxy"}"`);
+			return res;
+		}
+
+		const host = (req.url.host || "").toLowerCase();
+		const port = req.url.port || 0;
+		let address: string;
+		try {
+			// the brackets of an IPv6 address are not part of the host to resolve
+			address = (await dns.promises.lookup(host.replace(/^\[(.*)\]$/, "$1"))).address;
+		} catch (error) {
+			customLog(`tunnel to ${host}:${port} failed: ${error}`, LogLevel.WARN);
+			return textResponse(502, `${getReasonFromCode(502)}\n`);
+		}
+		// the rules see the name and the address, so that another spelling of an
+		// address or a name pointing to it is refused too
+		const names = destinationNames(host, address);
+		const matches = (p: string): boolean => names.some((name) => matchDestination(p, name, port));
+		if (deny.some(matches) || !allow.some(matches)) {
+			customLog(`tunnel to ${host}:${port} (${address}) refused`, LogLevel.WARN);
+			return textResponse(403, "Forbidden\n");
+		}
+
+		let target: TCPConn;
+		try {
+			// the address checked is the one connected to, the name is not resolved again
+			target = await soConnect(port, address, {
+				timeout: options.connectTimeout || kConnectTimeout,
+			});
+		} catch (error) {
+			customLog(`tunnel to ${host}:${port} failed: ${error}`, LogLevel.WARN);
+			const code = error instanceof TimeoutError ? 504 : 502;
+			return textResponse(code, `${getReasonFromCode(code)}\n`);
+		}
+
+		return {
+			code: 200,
+			reason: "Connection Established",
+			headers: new Headers(),
+			body: {
+				...readerFromMemory(Buffer.from("")),
+				// called when the response could not be sent, or once the tunnel ended
+				close: async (): Promise<void> => {
+					target.socket.destroy();
+				},
+			},
+			upgrade: async (conn: TCPConn, buf: DynBuf): Promise<void> => {
+				const tunnel: Tunnel = {
+					idleTimeout: options.idleTimeout || kTunnelIdleTimeout,
+					lastActive: Date.now(),
+				};
+				// nothing tells the peers to stop, the tunnel is cut when the server closes
+				const removeHook = onShutdown(req, () => {
+					target.socket.destroy();
+					conn.socket.destroy();
+				});
+				try {
+					// the client may have sent data right after the request head
+					if (buf.length > 0) {
+						const early = Buffer.from(buf.data.subarray(buf.begin, buf.begin + buf.length));
+						bufPop(buf, buf.length);
+						await soWrite(target, early);
+					}
+					await Promise.all([pipe(conn, target, tunnel), pipe(target, conn, tunnel)]);
+				} catch (error) {
+					customLog(`tunnel to ${host}:${port} closed: ${error}`, LogLevel.DEBUG);
+				} finally {
+					removeHook();
+					target.socket.destroy();
+					conn.socket.destroy();
+				}
+			},
+		};
+	};
+}
+
+/**
+ * Copies the data of a connection to another until it ends, then ends the other
+ * one. A read timing out does not close the tunnel if the other direction was
+ * active meanwhile.
+ */
+async function pipe(from: TCPConn, to: TCPConn, tunnel: Tunnel): Promise<void> {
+	while (true) {
+		let data: Buffer;
+		try {
+			data = await soRead(from, tunnel.idleTimeout);
+		} catch (error) {
+			if (error instanceof TimeoutError && Date.now() - tunnel.lastActive < tunnel.idleTimeout) {
+				continue;
+			}
+			throw error;
+		}
+		if (data.length === 0) {
+			to.socket.end();
+			return;
+		}
+		tunnel.lastActive = Date.now();
+		await soWrite(to, data);
+	}
+}
+
+/**
+ * Checks the Basic credentials of a `Proxy-Authorization` value.
+ */
+async function checkProxyAuth(
+	value: string | null,
+	authenticate: (user: string, password: string) => boolean | Promise<boolean>
+): Promise<boolean> {
+	const m = /^Basic[ \t]+([A-Za-z0-9+/]+=*)[ \t]*$/i.exec(value || "");
+	if (!m) {
+		return false;
+	}
+	const credentials = Buffer.from(m[1], "base64").toString("utf8");
+	const idx = credentials.indexOf(":");
+	if (idx < 0) {
+		return false;
+	}
+	return authenticate(credentials.slice(0, idx), credentials.slice(idx + 1));
+}
+
+/**
+ * Returns the host names a destination is matched by: the requested host and
+ * the resolved address, IPv6 addresses in brackets like in a URL. An IPv4
+ * address mapped to IPv6 is also matched by its IPv4 form.
+ */
+function destinationNames(host: string, address: string): string[] {
+	const names = [host];
+	if (net.isIPv6(address)) {
+		names.push(`[${address.toLowerCase()}]`);
+		const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+		if (mapped) {
+			names.push(mapped[1]);
+		}
+	} else {
+		names.push(address);
+	}
+	return names;
+}
+
+/**
+ * Matches a destination against a "host:port" pattern.
+ */
+function matchDestination(pattern: string, host: string, port: number): boolean {
+	const idx = pattern.lastIndexOf(":");
+	if (idx < 0) {
+		return false;
+	}
+	const hostPattern = pattern.slice(0, idx).toLowerCase();
+	const portPattern = pattern.slice(idx + 1);
+	if (portPattern !== "*" && parseInt(portPattern, 10) !== port) {
+		return false;
+	}
+	if (hostPattern === "*" || hostPattern === host) {
+		return true;
+	}
+	return hostPattern.startsWith("*.") && host.endsWith(hostPattern.slice(1));
+}
@@ -0,0 +1,447 @@
+/**
+ * This file contains the WebSocket protocol (RFC 6455) on top of the TCP connection.
+ * A route accepts the handshake with `acceptWebSocket`, then the session reads
+ * and writes messages with `wsRecv` and `wsSend`, in the same promise based
+ * style as `soRead` and `soWrite`.
+ *
+ * @module websocket
+ */
+import * as crypto from "crypto";
+import { BaseError, DynBuf, HTTPReq, HTTPRes, TCPConn, WebSocket, WSMessage } from "../echo/types";
+import { soRead, soWrite } from "../echo/promise_based_api_tcp_server";
+import { bufPop, bufPush } from "./dynamicBuffer";
+import { Headers } from "./headers";
+import { onShutdown } from "./httpServerApi";
+import { readerFromMemory } from "./readers";
+import { textResponse } from "./router";
+import { customLog, LogLevel } from "../utils";
+
+const kWSGuid = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const kDefaultMaxMessageSize = 1024 * 1024;
+const kDefaultCloseTimeout = 5000;
+
+const kOpContinuation = 0x0;
+const kOpText = 0x1;
+const kOpBinary = 0x2;
+const kOpClose = 0x8;
+const kOpPing = 0x9;
+const kOpPong = 0xa;
+
+// close codes
+const kCloseNormal = 1000;
+const kCloseGoingAway = 1001;
+const kCloseProtocolError = 1002;
+const kCloseNoStatus = 1005;
+const kCloseInvalidData = 1007;
+const kCloseTooBig = 1009;
+
+export type WebSocketOptions = {
+	// messages bigger than this close the connection with 1009
+	maxMessageSize?: number,
+	// the subprotocols supported by the server, in order of preference
+	protocols?: string[],
+	// time the peer has to answer a close frame before the connection is
+	// closed, in milliseconds
+	closeTimeout?: number,
+};
+
+type WSFrame = {
+	fin: boolean,
+	opcode: number,
+	payload: Buffer,
+};
+
+/**
+ * Error raised by a WebSocket session when the peer violates the protocol.
+ */
+class WSError extends BaseError {
+	code: number;
+
+	constructor(code: number, message: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
+/**
+ * Accepts the WebSocket handshake of a request.
+ * The returned response switches the protocol, then the session callback is
+ * called with the connection. The connection is closed when it returns. When
+ * the server closes, a close frame is sent to the peer, which ends the
+ * `wsRecv` loop of the session.
+ * @param req - The upgrade request.
+ * @param session - The callback running the WebSocket session.
+ * @param options - The options of the session.
+ * @returns The 101 response, or an error response if the handshake is invalid.
+ */
+export function acceptWebSocket(
+	req: HTTPReq,
+	session: (ws: WebSocket) => Promise<void>,
+	options: WebSocketOptions = {}
+): HTTPRes {
+	if (
+		req.method !== "GET" ||
+		!req.headers.hasToken("Upgrade", "websocket") ||
+		!req.headers.hasToken("Connection", "upgrade")
+	) {
+		const res = textResponse(426, "Upgrade Required\n");
+		res.headers.set("Upgrade", "websocket");
+		res.headers.set("Connection", "Upgrade");
+		return res;
+	}
+
+	if (req.headers.get("Sec-WebSocket-Version") !== "13") {
+		const res = textResponse(426, "Unsupported WebSocket version\n");
+		res.headers.set("Sec-WebSocket-Version", "13");
+		return res;
+	}
+
+	const key = req.headers.get("Sec-WebSocket-Key");
+	if (key === null || Buffer.from(key, "base64").length !== 16) {
+		return textResponse(400, "Bad Sec-WebSocket-Key\n");
+	}
+
+	const headers = new Headers([
+		["Upgrade", "websocket"],
+		["Connection", "Upgrade"],
+		["Sec-WebSocket-Accept", computeAccept(key)],
+	]);
+
+	let protocol: string | null = null;
+	const offered = req.headers.getList("Sec-WebSocket-Protocol");
+	if (options.protocols) {
+		protocol = options.protocols.find((p) => offered.includes(p)) || null;
+		if (protocol) {
+			headers.set("Sec-WebSocket-Protocol", protocol);
+		}
+	}
+
+	return {
+		code: 101,
+		headers: headers,
+		body: readerFromMemory(Buffer.from("")),
+		upgrade: async (conn: TCPConn, buf: DynBuf): Promise<void> => {
+			const ws: WebSocket = {
+				conn: conn,
+				buf: buf,
+				maxMessageSize: options.maxMessageSize || kDefaultMaxMessageSize,
+				closeTimeout: options.closeTimeout || kDefaultCloseTimeout,
+				protocol: protocol,
+				closeSent: false,
+				closeReceived: false,
+				closeCode: null,
+			};
+			let timer: NodeJS.Timeout | null = null;
+			const removeHook = onShutdown(req, () => {
+				// the session reads the answer of the peer, which has the close timeout to send it
+				if (!ws.closeSent) {
+					wsSendClose(ws, kCloseGoingAway, "Server closing").catch(() => {});
+				}
+				timer = setTimeout(() => conn.socket.destroy(), ws.closeTimeout);
+			});
+			try {
+				await session(ws);
+			} catch (error) {
+				customLog(`websocket session error: ${error}`, LogLevel.ERROR);
+				if (!ws.closeSent && !ws.conn.err) {
+					await wsClose(ws, 1011, "Internal Error");
+				}
+				return;
+			} finally {
+				removeHook();
+				if (timer) {
+					clearTimeout(timer);
+				}
+			}
+			if (!ws.closeSent && !ws.conn.err) {
+				await wsClose(ws, kCloseNormal);
+			}
+		},
+	};
+}
+
+/**
+ * Computes the `Sec-WebSocket-Accept` value for a `Sec-WebSocket-Key`.
+ * @param key - The key sent by the client.
+ * @returns The base64 encoded SHA-1 of the key and the WebSocket GUID.
+ */
+export function computeAccept(key: string): string {
+	return crypto.createHash("sha1").update(key + kWSGuid).digest("base64");
+}
+
+/**
+ * Receives the next message, reassembling the fragmented ones.
+ * Pings are answered and pongs ignored while waiting. A close frame from the
+ * peer is answered and ends the session.
+ * @param ws - The WebSocket session.
+ * @returns The message, or null once the connection is closed.
+ */
+export async function wsRecv(ws: WebSocket): Promise<WSMessage | null> {
+	let fragments: Buffer[] = [];
+	let size = 0;
+	let type: number | null = null;
+
+	try {
+		while (!ws.closeReceived) {
+			const frame = await readFrame(ws);
+			if (!frame) {
+				// the connection ended without a close frame
+				ws.closeReceived = true;
+				ws.closeCode = 1006;
+				return null;
+			}
+
+			switch (frame.opcode) {
+				case kOpPing:
+					if (!ws.closeSent) {
+						await writeFrame(ws, kOpPong, frame.payload);
+					}
+					continue;
+				case kOpPong:
+					continue;
+				case kOpClose:
+					await handleClose(ws, frame.payload);
+					return null;
+			}
+
+			if (frame.opcode === kOpContinuation) {
+				if (type === null) {
+					throw new WSError(kCloseProtocolError, "Unexpected continuation frame");
+				}
+			} else {
+				if (type !== null) {
+					throw new WSError(kCloseProtocolError, "Expected continuation frame");
+				}
+				type = frame.opcode;
+			}
+
+			size += frame.payload.length;
+			if (size > ws.maxMessageSize) {
+				throw new WSError(kCloseTooBig, "Message too big");
+			}
+			fragments.push(frame.payload);
+
+			if (frame.fin) {
+				const data = Buffer.concat(fragments);
+				fragments = [];
+				if (type === kOpText && !isUTF8(data)) {
+					throw new WSError(kCloseInvalidData, "Invalid UTF-8");
+				}
+				if (ws.closeSent) {
+					// the data sent after our close frame is discarded
+					type = null;
+					size = 0;
+					continue;
+				}
+				return { type: type === kOpText ? "text" : "binary", data: data };
+			}
+		}
+	} catch (error) {
+		if (error instanceof WSError) {
+			customLog(`websocket protocol error: ${error.message}`, LogLevel.WARN);
+			if (!ws.closeSent) {
+				await wsSendClose(ws, error.code, error.message);
+			}
+			ws.closeReceived = true;
+			return null;
+		}
+		throw error;
+	}
+	return null;
+}
+
+/**
+ * Sends a message in a single frame.
+ * @param ws - The WebSocket session.
+ * @param data - The message, a string is sent as a text message.
+ * @throws {Error} If the session is closing.
+ */
+export async function wsSend(ws: WebSocket, data: Buffer | string): Promise<void> {
+	if (ws.closeSent) {
+		throw new Error("WebSocket is closing");
+	}
+	if (typeof data === "string") {
+		await writeFrame(ws, kOpText, Buffer.from(data, "utf8"));
+	} else {
+		await writeFrame(ws, kOpBinary, data);
+	}
+}
+
+/**
+ * Sends a ping to the peer. The pong is consumed by `wsRecv`.
+ * @param ws - The WebSocket session.
+ * @param data - The application data of the ping, at most 125 bytes.
+ */
+export async function wsPing(ws: WebSocket, data: Buffer = Buffer.from("")): Promise<void> {
+	if (data.length > 125) {
+		throw new Error("Ping payload too long");
+	}
+	await writeFrame(ws, kOpPing, data);
+}
+
+/**
+ * Runs the close handshake: sends a close frame and waits for the one of the peer,
+ * discarding the messages received in between. A peer not answering within the
+ * close timeout is disconnected.
+ * @param ws - The WebSocket session.
+ * @param code - The close code.
+ * @param reason - The close reason.
+ */
+export async function wsClose(ws: WebSocket, code: number = kCloseNormal, reason: string = ""): Promise<void> {
+	const timer = setTimeout(() => ws.conn.socket.destroy(), ws.closeTimeout);
+	try {
+		if (!ws.closeSent) {
+			await wsSendClose(ws, code, reason);
+		}
+		while (!ws.closeReceived) {
+			await wsRecv(ws);
+		}
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+async function wsSendClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+	ws.closeSent = true;
+	const payload = Buffer.alloc(2);
+	payload.writeUInt16BE(code, 0);
+	// the whole payload of a control frame is limited to 125 bytes
+	await writeFrame(ws, kOpClose, Buffer.concat([payload, Buffer.from(reason, "utf8")]).subarray(0, 125));
+}
+
+/**
+ * Handles a close frame received from the peer, answering it if needed.
+ */
+async function handleClose(ws: WebSocket, payload: Buffer): Promise<void> {
+	ws.closeReceived = true;
+	if (payload.length === 1) {
+		throw new WSError(kCloseProtocolError, "Bad close frame");
+	}
+	let code = kCloseNoStatus;
+	if (payload.length >= 2) {
+		code = payload.readUInt16BE(0);
+		if (!validCloseCode(code)) {
+			throw new WSError(kCloseProtocolError, "Bad close code");
+		}
+	}
+	ws.closeCode = code;
+	if (!ws.closeSent) {
+		ws.closeSent = true;
+		const reply = payload.length >= 2 ? payload.subarray(0, 2) : Buffer.from("");
+		await writeFrame(ws, kOpClose, reply);
+	}
+}
+
+function validCloseCode(code: number): boolean {
+	return (code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006)
+		|| (code >= 3000 && code <= 4999);
+}
+
+/**
+ * Reads one frame from the connection and unmasks its payload.
+ * @param ws - The WebSocket session.
+ * @returns The frame, or null if the connection ended.
+ * @throws {WSError} If the frame violates the protocol.
+ */
+async function readFrame(ws: WebSocket): Promise<WSFrame | null> {
+	if (!(await bufFill(ws, 2))) {
+		return null;
+	}
+	const buf = ws.buf;
+	const b0 = buf.data[buf.begin];
+	const b1 = buf.data[buf.begin + 1];
+	const fin = (b0 & 0x80) !== 0;
+	const opcode = b0 & 0x0f;
+	const masked = (b1 & 0x80) !== 0;
+	let len = b1 & 0x7f;
+
+	if ((b0 & 0x70) !== 0) {
+		throw new WSError(kCloseProtocolError, "Reserved bits set");
+	}
+	if (![kOpContinuation, kOpText, kOpBinary, kOpClose, kOpPing, kOpPong].includes(opcode)) {
+		throw new WSError(kCloseProtocolError, "Unknown opcode");
+	}
+	if (!masked) {
+		// the frames from a client must be masked
+		throw new WSError(kCloseProtocolError, "Unmasked frame");
+	}
+	const control = (opcode & 0x8) !== 0;
+	if (control && (!fin || len > 125)) {
+		throw new WSError(kCloseProtocolError, "Bad control frame");
+	}
+
+	let headerLen = 2;
+	if (len === 126) {
+		if (!(await bufFill(ws, 4))) {
+			return null;
+		}
+		len = buf.data.readUInt16BE(buf.begin + 2);
+		headerLen = 4;
+	} else if (len === 127) {
+		if (!(await bufFill(ws, 10))) {
+			return null;
+		}
+		const high = buf.data.readUInt32BE(buf.begin + 2);
+		const low = buf.data.readUInt32BE(buf.begin + 6);
+		if (high > 0x1fffff) {
+			throw new WSError(kCloseTooBig, "Frame too big");
+		}
+		len = high * 0x100000000 + low;
+		headerLen = 10;
+	}
+	if (len > ws.maxMessageSize) {
+		throw new WSError(kCloseTooBig, "Message too big");
+	}
+
+	if (!(await bufFill(ws, headerLen + 4 + len))) {
+		return null;
+	}
+	const mask = Buffer.from(buf.data.subarray(buf.begin + headerLen, buf.begin + headerLen + 4));
+	const payload = Buffer.from(buf.data.subarray(buf.begin + headerLen + 4, buf.begin + headerLen + 4 + len));
+	bufPop(buf, headerLen + 4 + len);
+	for (let i = 0; i < payload.length; i++) {
+		payload[i] ^= mask[i & 3];
+	}
+	return { fin: fin, opcode: opcode, payload: payload };
+}
+
+/**
+ * Writes one unmasked frame to the connection.
+ */
+async function writeFrame(ws: WebSocket, opcode: number, payload: Buffer): Promise<void> {
+	let header: Buffer;
+	if (payload.length < 126) {
+		header = Buffer.alloc(2);
+		header[1] = payload.length;
+	} else if (payload.length < 0x10000) {
+		header = Buffer.alloc(4);
+		header[1] = 126;
+		header.writeUInt16BE(payload.length, 2);
+	} else {
+		header = Buffer.alloc(10);
+		header[1] = 127;
+		header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+		header.writeUInt32BE(payload.length % 0x100000000, 6);
+	}
+	header[0] = 0x80 | opcode;
+	await soWrite(ws.conn, Buffer.concat([header, payload]));
+}
+
+/**
+ * Reads from the connection until the buffer holds at least the given number of bytes.
+ * @returns False if the connection ended before.
+ */
+async function bufFill(ws: WebSocket, count: number): Promise<boolean> {
+	while (ws.buf.length < count) {
+		const data = await soRead(ws.conn);
+		if (data.length === 0) {
+			return false;
+		}
+		bufPush(ws.buf, data);
+	}
+	return true;
+}
+
+function isUTF8(data: Buffer): boolean {
+	return Buffer.from(data.toString("utf8"), "utf8").equals(data);
+}
@@ -0,0 +1,163 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { BodyReader, HTTPError, HTTPReq } from "../echo/types";
+import { bufferBody, multipartNext, parseJSON, parseMultipart, parseUrlencoded } from "../protocol/bodyParsers";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { textResponse } from "../protocol/router";
+import { rawExchange, readAll, startServer, statusCodes } from "./helpers";
+
+function request(contentType: string | null): HTTPReq {
+	const headers = new Headers();
+	if (contentType !== null) {
+		headers.set("Content-Type", contentType);
+	}
+	return { headers: headers } as HTTPReq;
+}
+
+/**
+ * Returns a body of unknown length read in pieces of the given size, counting
+ * the bytes read.
+ */
+function pieces(data: string, size: number): BodyReader & { consumed: number } {
+	const bytes = Buffer.from(data, "latin1");
+	const reader = {
+		length: -1,
+		consumed: 0,
+		read: async (): Promise<Buffer> => {
+			const chunk = bytes.subarray(reader.consumed, reader.consumed + size);
+			reader.consumed += chunk.length;
+			return chunk;
+		},
+	};
+	return reader;
+}
+
+function hasCode(code: number) {
+	return (error: unknown): boolean => error instanceof HTTPError && error.code === code;
+}
+
+const kBoundary = "----b0undary";
+
+function multipart(...parts: string[]): string {
+	return "preamble\r\n" + parts.map((part) => `--${kBoundary}\r\n${part}\r\n`).join("") + `--${kBoundary}--\r\nepilogue`;
+}
+
+test("bufferBody enforces the limit with and without a known length", async () => {
+	assert.strictEqual((await bufferBody(pieces("0123456789", 3), 10)).toString(), "0123456789");
+	await assert.rejects(bufferBody(readerFromMemory(Buffer.from("0123456789")), 9), hasCode(413));
+	await assert.rejects(bufferBody(pieces("0123456789", 3), 9), hasCode(413));
+});
+
+test("parseJSON checks the media type and reports the syntax errors", async () => {
+	const body = () => readerFromMemory(Buffer.from("{\"a\": [1, \"é\"]}"));
+	assert.deepStrictEqual(await parseJSON(request("application/json; charset=utf-8"), body()), { a: [1, "é"] });
+	assert.deepStrictEqual(await parseJSON(request("Application/Problem+JSON"), body()), { a: [1, "é"] });
+	await assert.rejects(parseJSON(request("text/plain"), body()), hasCode(415));
+	await assert.rejects(parseJSON(request(null), body()), hasCode(415));
+	await assert.rejects(parseJSON(request("application/json"), body(), { limit: 5 }), hasCode(413));
+	await assert.rejects(
+		parseJSON(request("application/json"), readerFromMemory(Buffer.from("{\"a\":"))),
+		(error: unknown) => hasCode(400)(error) && /^Bad JSON/.test((error as Error).message)
+	);
+});
+
+test("parseUrlencoded decodes the fields", async () => {
+	const form = await parseUrlencoded(
+		request("application/x-www-form-urlencoded"),
+		readerFromMemory(Buffer.from("name=J%C3%B6rg+M&tag=a&tag=b&empty"))
+	);
+	assert.deepStrictEqual({ ...form }, { name: ["Jörg M"], tag: ["a", "b"], empty: [""] });
+	await assert.rejects(parseUrlencoded(request("application/json"), readerFromMemory(Buffer.from(""))), hasCode(415));
+	await assert.rejects(
+		parseUrlencoded(request("application/x-www-form-urlencoded"), readerFromMemory(Buffer.from("a=%")), {}),
+		hasCode(400)
+	);
+	await assert.rejects(
+		parseUrlencoded(request("application/x-www-form-urlencoded"), readerFromMemory(Buffer.from("a=12345")), { limit: 4 }),
+		hasCode(413)
+	);
+});
+
+test("the multipart parts are streamed, whatever the size of the reads", async () => {
+	const data = multipart(
+		"Content-Disposition: form-data; name=\"title\"\r\n\r\nhello\r\nworld",
+		"Content-Disposition: form-data; name=\"file\"; filename=\"C:\\\\dir\\\\a.txt\"\r\nContent-Type: text/csv\r\n\r\n" +
+			`a,b\r\n--${kBoundary.slice(0, -1)}x\r\n1,2`,
+		"Content-Disposition: form-data; name=\"utf\"; filename=\"x.bin\"; filename*=UTF-8''%C3%A9t%C3%A9.txt\r\n\r\n",
+	);
+	for (const size of [1, 7, data.length]) {
+		const form = parseMultipart(request(`multipart/form-data; boundary="${kBoundary}"`), pieces(data, size));
+		const parts: Array<[string, string | null, string, string]> = [];
+		let part;
+		while ((part = await multipartNext(form)) !== null) {
+			parts.push([part.name, part.filename, part.contentType, await readAll(part.body)]);
+		}
+		assert.deepStrictEqual(parts, [
+			["title", null, "text/plain", "hello\r\nworld"],
+			["file", "a.txt", "text/csv", `a,b\r\n--${kBoundary.slice(0, -1)}x\r\n1,2`],
+			["utf", "été.txt", "text/plain", ""],
+		], `size ${size}`);
+		assert.strictEqual(await multipartNext(form), null);
+	}
+});
+
+test("an unread part is skipped and a large part is never buffered whole", async () => {
+	const big = "x".repeat(100000);
+	const body = pieces(multipart(
+		`Content-Disposition: form-data; name="big"\r\n\r\n${big}`,
+		"Content-Disposition: form-data; name=\"small\"\r\n\r\nok",
+	), 1000);
+	const form = parseMultipart(request(`multipart/form-data; boundary=${kBoundary}`), body);
+	const first = await multipartNext(form);
+	assert.strictEqual(first!.name, "big");
+	const chunk = await first!.body.read();
+	assert.ok(chunk.length > 0 && chunk.length <= 1000);
+	assert.ok(body.consumed < 5000);
+	const second = await multipartNext(form);
+	assert.strictEqual(second!.name, "small");
+	assert.strictEqual(await readAll(second!.body), "ok");
+});
+
+test("the multipart limits and syntax errors are reported", async () => {
+	const type = `multipart/form-data; boundary=${kBoundary}`;
+	const field = (name: string) => `Content-Disposition: form-data; name="${name}"\r\n\r\nvalue`;
+	const drain = async (data: string, options = {}): Promise<void> => {
+		const form = parseMultipart(request(type), pieces(data, 16), options);
+		let part;
+		while ((part = await multipartNext(form)) !== null) {
+			await readAll(part.body);
+		}
+	};
+
+	assert.throws(() => parseMultipart(request("multipart/form-data"), pieces("", 1)), hasCode(400));
+	assert.throws(() => parseMultipart(request("multipart/form-data; boundary=" + "b".repeat(71)), pieces("", 1)), hasCode(400));
+	assert.throws(() => parseMultipart(request("multipart/mixed; boundary=b"), pieces("", 1)), hasCode(415));
+	await assert.rejects(drain(multipart(field("a"), field("b"), field("c")), { maxParts: 2 }), hasCode(413));
+	await assert.rejects(drain(multipart(field("a")), { maxPartSize: 4 }), hasCode(413));
+	await assert.rejects(drain(multipart(`X-Long: ${"y".repeat(200)}\r\n${field("a")}`), { maxHeaderSize: 100 }), hasCode(413));
+	await assert.rejects(drain(multipart("Content-Disposition: attachment; name=\"a\"\r\n\r\nv")), hasCode(400));
+	await assert.rejects(drain(multipart("Content-Disposition: form-data\r\n\r\nv")), hasCode(400));
+	await assert.rejects(drain(multipart("Broken header\r\n\r\nv")), hasCode(400));
+	await assert.rejects(drain(`--${kBoundary}\r\n${field("a")}`), hasCode(400));
+	await assert.rejects(drain(`--${kBoundary}junk\r\n${field("a")}\r\n--${kBoundary}--`), hasCode(400));
+});
+
+test("the parsers answer the client through the server", async () => {
+	const { server, port } = await startServer(async (req, body) => {
+		const value = await parseJSON(req, body, { limit: 32 });
+		return textResponse(200, JSON.stringify(value));
+	});
+	try {
+		const post = (type: string, data: string) =>
+			`POST / HTTP/1.1\r\nHost: x\r\nContent-Type: ${type}\r\nContent-Length: ${data.length}\r\n\r\n${data}`;
+		const text = await rawExchange(port, [post("application/json", "[1,2]")]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.ok(text.endsWith("\r\n\r\n[1,2]"));
+		assert.deepStrictEqual(statusCodes(await rawExchange(port, [post("application/json", "[1,")])), [400]);
+		assert.deepStrictEqual(statusCodes(await rawExchange(port, [post("text/plain", "[]")])), [415]);
+		assert.deepStrictEqual(statusCodes(await rawExchange(port, [post("application/json", `"${"a".repeat(40)}"`)])), [413]);
+	} finally {
+		await server.close();
+	}
+});
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { BodyReader, HTTPError, HTTPRes } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { encodeChunk, encodeLastChunk } from "../protocol/httpServerApi";
+import { readerFromMemory } from "../protocol/readers";
+import { rawExchange, readAll, startServer, statusCodes } from "./helpers";
+
+test("a chunked body split across packets is decoded", async () => {
+	const { server, port } = await startServer(async (req, body): Promise<HTTPRes> => {
+		const text = await readAll(body);
+		const trailer = body.trailers ? body.trailers.get("X-Checksum") : null;
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from(`${body.length} ${text} ${trailer}\n`)) };
+	});
+	try {
+		const text = await rawExchange(port, [
+			"POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\nConnection: close\r\n\r\n5\r\nhel",
+			"lo\r\n",
+			"6;name=value\r\n world\r",
+			"\n0\r\nX-Checksum: 42\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.ok(text.endsWith("\r\n\r\n-1 hello world 42\n"), text);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a request pipelined after a chunked body is read from the rest of the buffer", async () => {
+	const { server, port } = await startServer(async (req, body): Promise<HTTPRes> => {
+		const text = await readAll(body);
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from(`${req.uri.toString()}:${text}\n`)) };
+	});
+	try {
+		const text = await rawExchange(port, [
+			"POST /a HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n3\r\nabc\r\n0\r\n\r\n"
+			+ "POST /b HTTP/1.1\r\nHost: x\r\nContent-Length: 2\r\nConnection: close\r\n\r\nde",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [200, 200]);
+		assert.match(text, /\r\n\r\n\/a:abc\n/);
+		assert.match(text, /\r\n\r\n\/b:de\n$/);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a chunked body ending before the last chunk fails to read", async () => {
+	let failure: unknown = null;
+	const { server, port } = await startServer(async (req, body): Promise<HTTPRes> => {
+		try {
+			await readAll(body);
+		} catch (error) {
+			failure = error;
+			throw error;
+		}
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from("ok\n")) };
+	});
+	try {
+		const socket = net.connect(port, "127.0.0.1");
+		socket.on("error", () => {});
+		// the client stops sending in the middle of a chunk
+		socket.end("POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n5\r\nhel");
+		await new Promise((resolve) => socket.on("close", resolve));
+		assert.ok(failure instanceof HTTPError);
+		assert.strictEqual(failure.code, 400);
+	} finally {
+		await server.close();
+	}
+});
+
+/**
+ * Creates a reader of unknown length returning the pieces one by one.
+ */
+function readerOfPieces(pieces: string[]): BodyReader {
+	return {
+		length: -1,
+		read: async (): Promise<Buffer> => Buffer.from(pieces.shift() || ""),
+	};
+}
+
+test("encodeChunk and encodeLastChunk frame the body and the trailers", () => {
+	assert.strictEqual(encodeChunk(Buffer.from("a".repeat(26))).toString(), `1a\r\n${"a".repeat(26)}\r\n`);
+	assert.strictEqual(encodeLastChunk(new Headers()).toString(), "0\r\n\r\n");
+	assert.strictEqual(encodeLastChunk(new Headers([["X-Sum", "7"]])).toString(), "0\r\nX-Sum: 7\r\n\r\n");
+});
+
+test("a body of unknown length is sent chunked with its trailers", async () => {
+	const { server, port } = await startServer(async (): Promise<HTTPRes> => ({
+		code: 200,
+		headers: new Headers(),
+		body: readerOfPieces(["hello", " world"]),
+		trailers: new Headers([["X-Sum", "7"]]),
+	}));
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n"]);
+		assert.match(text, /\r\nTransfer-Encoding: chunked\r\n/);
+		assert.match(text, /\r\nTrailer: X-Sum\r\n/);
+		assert.doesNotMatch(text, /Content-Length/);
+		assert.ok(text.endsWith("\r\n\r\n5\r\nhello\r\n6\r\n world\r\n0\r\nX-Sum: 7\r\n\r\n"), text);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a body of unknown length is delimited by the end of the connection for HTTP/1.0", async () => {
+	const { server, port } = await startServer(async (): Promise<HTTPRes> => ({
+		code: 200,
+		headers: new Headers(),
+		body: readerOfPieces(["hello", " world"]),
+	}));
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.0\r\nConnection: keep-alive\r\n\r\n"]);
+		assert.doesNotMatch(text, /Transfer-Encoding/);
+		assert.match(text, /\r\nConnection: close\r\n/);
+		assert.ok(text.endsWith("\r\n\r\nhello world"), text);
+	} finally {
+		await server.close();
+	}
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as zlib from "zlib";
+import { HTTPReq, HTTPRes } from "../echo/types";
+import { baseETag, compression, negotiateEncoding } from "../protocol/compression";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { textResponse } from "../protocol/router";
+import { readAll } from "./helpers";
+
+const kText = "compress me\n".repeat(200);
+
+async function readBuffer(res: HTTPRes): Promise<Buffer> {
+	return Buffer.from(await readAll(res.body), "latin1");
+}
+
+function compress(accept: string | null, res: HTTPRes): Promise<HTTPRes> {
+	const headers = new Headers(accept === null ? [] : [["Accept-Encoding", accept]]);
+	const req = { method: "GET", headers: headers } as HTTPReq;
+	return compression()(req, readerFromMemory(Buffer.from("")), async () => res);
+}
+
+test("negotiateEncoding picks the best quality, then br, gzip and deflate", () => {
+	assert.strictEqual(negotiateEncoding("gzip, deflate, br"), "br");
+	assert.strictEqual(negotiateEncoding("gzip;q=1, br;q=0.5"), "gzip");
+	assert.strictEqual(negotiateEncoding("deflate, *;q=0.1"), "deflate");
+	assert.strictEqual(negotiateEncoding("*"), "br");
+	assert.strictEqual(negotiateEncoding("br;q=0, gzip;q=0"), null);
+	assert.strictEqual(negotiateEncoding("identity"), null);
+});
+
+test("baseETag removes the suffix of the encoding only", () => {
+	assert.strictEqual(baseETag("\"abc-gzip\""), "\"abc\"");
+	assert.strictEqual(baseETag("W/\"abc-br\""), "W/\"abc\"");
+	assert.strictEqual(baseETag("\"abc-zip\""), "\"abc-zip\"");
+});
+
+test("a large body is compressed with the negotiated encoding", async () => {
+	const raw = textResponse(200, kText);
+	raw.headers.set("ETag", "\"v1\"");
+	const res = await compress("gzip", raw);
+	assert.strictEqual(res.headers.get("Content-Encoding"), "gzip");
+	assert.strictEqual(res.headers.get("Vary"), "Accept-Encoding");
+	assert.strictEqual(res.headers.get("ETag"), "\"v1-gzip\"");
+	assert.strictEqual(res.headers.has("Content-Length"), false);
+	assert.strictEqual(res.body.length, -1);
+	assert.strictEqual(zlib.gunzipSync(await readBuffer(res)).toString(), kText);
+
+	const br = await compress("br", textResponse(200, kText));
+	assert.strictEqual(zlib.brotliDecompressSync(await readBuffer(br)).toString(), kText);
+});
+
+test("small, compressed and partial bodies are sent raw", async () => {
+	const small = await compress("gzip", textResponse(200, "tiny\n"));
+	assert.strictEqual(small.headers.has("Content-Encoding"), false);
+	// the response still depends on Accept-Encoding
+	assert.strictEqual(small.headers.get("Vary"), "Accept-Encoding");
+
+	const image = textResponse(200, kText);
+	image.headers.set("Content-Type", "image/png");
+	assert.strictEqual((await compress("gzip", image)).headers.has("Content-Encoding"), false);
+
+	const partial = textResponse(206, kText);
+	assert.strictEqual((await compress("gzip", partial)).headers.has("Content-Encoding"), false);
+
+	const unasked = await compress(null, textResponse(200, kText));
+	assert.strictEqual(unasked.headers.has("Content-Encoding"), false);
+	assert.strictEqual((await readBuffer(unasked)).toString(), kText);
+});
@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { HTTPReq } from "../echo/types";
+import { clearCookie, parseCookies, serializeCookie, setCookie, signCookie, unsignCookie } from "../protocol/cookies";
+import { textResponse } from "../protocol/router";
+import { rawExchange, startServer } from "./helpers";
+
+test("parseCookies keeps the first valid cookie of each name", () => {
+	const cookies = parseCookies("a=1; b=\"quoted value\"; a=2; c=x%20y; d=%zz; bad name=3; noequals; e=; __proto__=p");
+	assert.deepStrictEqual({ ...cookies }, { "a": "1", "b": "quoted value", "c": "x y", "d": "%zz", "e": "", "__proto__": "p" });
+	assert.strictEqual(Object.getPrototypeOf(cookies), null);
+	assert.deepStrictEqual({ ...parseCookies(null) }, {});
+});
+
+test("serializeCookie writes the attributes", () => {
+	const expires = new Date(Date.UTC(2030, 0, 2, 3, 4, 5));
+	assert.strictEqual(
+		serializeCookie("id", "a b;c", {
+			expires: expires,
+			maxAge: 60.9,
+			domain: "example.com",
+			path: "/app",
+			secure: true,
+			httpOnly: true,
+			sameSite: "None",
+		}),
+		"id=a%20b%3Bc; Expires=Wed, 02 Jan 2030 03:04:05 GMT; Max-Age=60; Domain=example.com; Path=/app; Secure; HttpOnly; SameSite=None"
+	);
+	assert.strictEqual(serializeCookie("x", "1"), "x=1");
+	assert.throws(() => serializeCookie("bad name", "1"), /Invalid cookie name/);
+	assert.throws(() => serializeCookie("x", "1", { path: "/; Domain=evil" }), /Invalid cookie Path/);
+	assert.throws(() => serializeCookie("x", "1", { domain: "a\r\nb" }), /Invalid cookie Domain/);
+	assert.throws(() => serializeCookie("x", "1", { sameSite: "None" }), /requires Secure/);
+});
+
+test("signed values are verified with any of the secrets", () => {
+	const signed = signCookie("session-id", "old");
+	assert.strictEqual(unsignCookie(signed, "old"), "session-id");
+	assert.strictEqual(unsignCookie(signed, ["new", "old"]), "session-id");
+	assert.strictEqual(unsignCookie(signed, "new"), null);
+	assert.strictEqual(unsignCookie("session-id", "old"), null);
+	assert.strictEqual(unsignCookie(signed.slice(0, -1), "old"), null);
+	assert.strictEqual(unsignCookie("other" + signed.slice(signed.indexOf(".")), "old"), null);
+	// a value may contain dots
+	assert.strictEqual(unsignCookie(signCookie("a.b", "k"), "k"), "a.b");
+});
+
+test("the server parses the cookies and sends one Set-Cookie line per cookie", async () => {
+	const { server, port } = await startServer(async (req: HTTPReq) => {
+		const res = textResponse(200, JSON.stringify(req.cookies));
+		setCookie(res, "theme", "dark", { path: "/" });
+		clearCookie(res, "old", { path: "/" });
+		return res;
+	});
+	try {
+		const text = await rawExchange(port, [
+			"GET / HTTP/1.1\r\nHost: x\r\nCookie: a=1; b=2\r\nCookie: c=3\r\nConnection: close\r\n\r\n",
+		]);
+		assert.match(text, /\r\nSet-Cookie: theme=dark; Path=\/\r\n/);
+		assert.match(text, /\r\nSet-Cookie: old=; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0; Path=\/\r\n/);
+		assert.deepStrictEqual(JSON.parse(text.slice(text.indexOf("\r\n\r\n") + 4)), { a: "1", b: "2", c: "3" });
+	} finally {
+		await server.close();
+	}
+});
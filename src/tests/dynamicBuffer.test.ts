@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { DynBuf, HTTPRes } from "../echo/types";
+import { bufPop, bufPush } from "../protocol/dynamicBuffer";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+function view(buf: DynBuf): string {
+	return buf.data.subarray(buf.begin, buf.begin + buf.length).toString("latin1");
+}
+
+test("bufPush keeps the unread data when it grows a buffer with a consumed front", () => {
+	const buf: DynBuf = { data: Buffer.alloc(0), length: 0, begin: 0 };
+	bufPush(buf, Buffer.from("a".repeat(40)));
+	bufPop(buf, 20);
+	assert.ok(buf.begin > 0);
+	bufPush(buf, Buffer.from("b".repeat(100)));
+	assert.strictEqual(view(buf), "a".repeat(20) + "b".repeat(100));
+});
+
+test("bufPush moves the data to the front when the buffer is large enough", () => {
+	const buf: DynBuf = { data: Buffer.alloc(0), length: 0, begin: 0 };
+	bufPush(buf, Buffer.from("0123456789".repeat(10)));
+	const data = buf.data;
+	bufPop(buf, 20);
+	bufPush(buf, Buffer.from("x".repeat(40)));
+	assert.strictEqual(buf.data, data);
+	assert.strictEqual(view(buf), "0123456789".repeat(10).slice(20) + "x".repeat(40));
+});
+
+test("bufPop reclaims the front without losing data", () => {
+	const buf: DynBuf = { data: Buffer.alloc(0), length: 0, begin: 0 };
+	bufPush(buf, Buffer.from("hello world"));
+	bufPop(buf, 6);
+	bufPop(buf, 0);
+	assert.strictEqual(view(buf), "world");
+	bufPop(buf, 5);
+	assert.strictEqual(buf.length, 0);
+});
+
+test("a chunked request after a large one on the same connection is served", async () => {
+	const { server, port } = await startServer(async (req, body): Promise<HTTPRes> => {
+		let size = 0;
+		let data: Buffer;
+		while ((data = await body.read()).length > 0) {
+			size += data.length;
+		}
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from(`${size}\n`)) };
+	});
+	try {
+		const text = await rawExchange(port, [
+			`POST /a HTTP/1.1\r\nHost: x\r\nContent-Length: 3000\r\n\r\n${"a".repeat(3000)}`,
+			"POST /b HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n",
+			"400\r\n" + "b".repeat(512),
+			"b".repeat(512) + "\r\n",
+			"10\r\n" + "c".repeat(16) + "\r\n0\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [200, 200]);
+		assert.match(text, /\r\n\r\n3000\n/);
+		assert.match(text, /\r\n\r\n1040\n/);
+	} finally {
+		await server.closeForcefully(100);
+	}
+});
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { BodyReader, HTTPReq, HTTPRes } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+/**
+ * Returns a body of unknown length, telling when it is closed.
+ */
+function streamed(text: string, onClose: () => void): BodyReader {
+	const reader = readerFromMemory(Buffer.from(text));
+	return { length: -1, read: reader.read, close: async () => onClose() };
+}
+
+function startFraming(onClose: (path: string) => void = () => {}) {
+	return startServer(async (req: HTTPReq): Promise<HTTPRes> => {
+		const path = req.url.pathname;
+		const code = parseInt(path.slice(1), 10) || 200;
+		const headers = new Headers([["Content-Length", "999"], ["Transfer-Encoding", "gzip"], ["X-Path", path]]);
+		// a handler cannot add a second length
+		headers.append("Content-Length", "1");
+		const body = path === "/stream"
+			? streamed("streamed", () => onClose(path))
+			: readerFromMemory(Buffer.from("hello"));
+		return { code: code, headers: headers, body: body };
+	});
+}
+
+/**
+ * Splits raw text into the responses it holds.
+ */
+function responses(text: string): string[] {
+	return text.split(/(?=HTTP\/1\.1 \d{3} )/);
+}
+
+test("the framing headers of the handler are replaced", async () => {
+	const { server, port } = await startFraming();
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n"]);
+		assert.match(text, /^HTTP\/1\.1 200 OK\r\n/);
+		assert.strictEqual(text.match(/Content-Length/gi)!.length, 1);
+		assert.match(text, /\r\nContent-Length: 5\r\n/);
+		assert.doesNotMatch(text, /Transfer-Encoding/i);
+		assert.ok(text.endsWith("\r\n\r\nhello"));
+	} finally {
+		await server.close();
+	}
+});
+
+test("a HEAD response has the headers of the GET response without the body", async () => {
+	const { server, port } = await startFraming();
+	try {
+		const text = await rawExchange(port, [
+			"HEAD / HTTP/1.1\r\nHost: x\r\n\r\nHEAD /stream HTTP/1.1\r\nHost: x\r\n\r\nGET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n",
+		]);
+		const [fixed, stream, get] = responses(text);
+		assert.match(fixed, /\r\nContent-Length: 5\r\n/);
+		assert.ok(fixed.endsWith("\r\n\r\n"), fixed);
+		// the length of a streamed body is not known without producing it
+		assert.doesNotMatch(stream, /Content-Length|Transfer-Encoding/i);
+		assert.ok(stream.endsWith("\r\n\r\n"), stream);
+		// the connection stays usable after the bodiless responses
+		assert.ok(get.endsWith("\r\n\r\nhello"), get);
+		assert.deepStrictEqual(statusCodes(text), [200, 200, 200]);
+	} finally {
+		await server.close();
+	}
+});
+
+test("1xx, 204 and 304 responses carry neither body nor Content-Length", async () => {
+	const { server, port } = await startFraming();
+	try {
+		const text = await rawExchange(port, [
+			"GET /204 HTTP/1.1\r\nHost: x\r\n\r\n" +
+			"GET /304 HTTP/1.1\r\nHost: x\r\n\r\n" +
+			"GET /103 HTTP/1.1\r\nHost: x\r\n\r\n" +
+			"GET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [204, 304, 103, 200]);
+		const parts = responses(text);
+		for (const part of parts.slice(0, 3)) {
+			assert.doesNotMatch(part, /Content-Length|Transfer-Encoding|hello/i, part);
+			assert.ok(part.endsWith("\r\n\r\n"), part);
+		}
+		assert.ok(parts[3].endsWith("\r\n\r\nhello"));
+	} finally {
+		await server.close();
+	}
+});
+
+test("the body of a bodiless response is still closed", async () => {
+	const closed: string[] = [];
+	const { server, port } = await startFraming((path) => closed.push(path));
+	try {
+		await rawExchange(port, ["HEAD /stream HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n"]);
+		assert.deepStrictEqual(closed, ["/stream"]);
+	} finally {
+		await server.close();
+	}
+});
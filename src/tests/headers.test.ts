@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { HTTPRes } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+function lines(...raw: string[]): Buffer[] {
+	return raw.map((line) => Buffer.from(line, "latin1"));
+}
+
+test("a value keeps its colons and loses the surrounding whitespace", () => {
+	const headers = Headers.fromLines(lines("Host: example.com:8080", "Referer:\t http://a/b?c=d \t", "X-Empty:"));
+	assert.strictEqual(headers.get("host"), "example.com:8080");
+	assert.strictEqual(headers.get("REFERER"), "http://a/b?c=d");
+	assert.strictEqual(headers.get("x-empty"), "");
+	assert.strictEqual(headers.get("missing"), null);
+	assert.throws(() => Headers.fromLines(lines("no colon")), /Malformed/);
+	assert.throws(() => Headers.fromLines(lines(": no name")), /Malformed/);
+});
+
+test("the values of a repeated field are joined, except for Set-Cookie", () => {
+	const headers = new Headers([
+		["Accept", "text/html"],
+		["Set-Cookie", "a=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT"],
+		["accept", "application/json"],
+		["Set-Cookie", "b=2"],
+	]);
+	assert.deepStrictEqual(headers.getAll("ACCEPT"), ["text/html", "application/json"]);
+	assert.strictEqual(headers.get("Accept"), "text/html, application/json");
+	assert.strictEqual(headers.get("set-cookie"), "a=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT");
+	assert.strictEqual(headers.getAll("Set-Cookie").length, 2);
+	assert.deepStrictEqual(headers.names(), ["Accept", "Set-Cookie"]);
+	assert.strictEqual(headers.size, 4);
+});
+
+test("list fields are split outside the quoted strings", () => {
+	const headers = new Headers([
+		["If-None-Match", "\"a,b\", W/\"c\\\"d\" ,,"],
+		["If-None-Match", "\"e\""],
+		["Connection", "keep-alive, Upgrade"],
+	]);
+	assert.deepStrictEqual(headers.getList("if-none-match"), ["\"a,b\"", "W/\"c\\\"d\"", "\"e\""]);
+	assert.ok(headers.hasToken("connection", "upgrade"));
+	assert.ok(!headers.hasToken("connection", "close"));
+	assert.deepStrictEqual(headers.getList("missing"), []);
+});
+
+test("getInt accepts a single decimal value", () => {
+	const headers = new Headers([
+		["Content-Length", "42"],
+		["X-Same", "7, 7"],
+		["X-Different", "7"],
+		["X-Different", "8"],
+		["X-Signed", "-1"],
+		["X-Hex", "0x10"],
+		["X-Huge", "99999999999999999999"],
+		["X-Empty", ""],
+	]);
+	assert.strictEqual(headers.getInt("content-length"), 42);
+	assert.strictEqual(headers.getInt("x-same"), 7);
+	assert.strictEqual(headers.getInt("missing"), null);
+	for (const name of ["X-Different", "X-Signed", "X-Hex", "X-Huge", "X-Empty"]) {
+		assert.ok(Number.isNaN(headers.getInt(name)), name);
+	}
+});
+
+test("set replaces, append adds and delete removes every value", () => {
+	const headers = new Headers({ "Vary": "Accept" });
+	headers.append("vary", "Accept-Encoding");
+	assert.strictEqual(headers.get("Vary"), "Accept, Accept-Encoding");
+	headers.set("VARY", " Origin ");
+	assert.deepStrictEqual(headers.entries(), [["VARY", "Origin"]]);
+	headers.set("Content-Length", 10);
+	assert.strictEqual(headers.get("content-length"), "10");
+	headers.delete("vary");
+	assert.ok(!headers.has("Vary"));
+	assert.strictEqual(headers.encode().toString("latin1"), "Content-Length: 10\r\n");
+});
+
+test("invalid names and values are refused", () => {
+	const headers = new Headers();
+	assert.throws(() => headers.set("Bad Name", "x"), /Invalid header name/);
+	assert.throws(() => headers.set("", "x"), /Invalid header name/);
+	assert.throws(() => headers.set("X-Split", "a\r\nInjected: yes"), /Invalid value/);
+	assert.throws(() => headers.append("X-Nul", "a\0b"), /Invalid value/);
+	assert.strictEqual(headers.size, 0);
+});
+
+test("the handlers see the parsed request headers and their response headers are serialized", async () => {
+	const { server, port } = await startServer(async (req): Promise<HTTPRes> => {
+		const headers = new Headers([["Set-Cookie", "a=1"], ["Set-Cookie", "b=2"]]);
+		headers.set("X-Host", req.headers.get("host") || "");
+		headers.set("X-Tags", req.headers.getList("x-tag").join("|"));
+		return { code: 200, headers: headers, body: readerFromMemory(Buffer.from("")) };
+	});
+	try {
+		const text = await rawExchange(port, [
+			"GET / HTTP/1.1\r\nHost:  localhost:8080 \r\nX-Tag: a, b\r\nx-tag: c\r\nConnection: close\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.match(text, /\r\nX-Host: localhost:8080\r\n/);
+		assert.match(text, /\r\nX-Tags: a\|b\|c\r\n/);
+		assert.match(text, /\r\nSet-Cookie: a=1\r\nSet-Cookie: b=2\r\n/);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a header line without a colon is refused", async () => {
+	const { server, port } = await startServer(async () => ({
+		code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from("")),
+	}));
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\nBroken\r\n\r\n"]);
+		assert.deepStrictEqual(statusCodes(text), [400]);
+	} finally {
+		await server.close();
+	}
+});
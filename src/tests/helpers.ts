@@ -0,0 +1,90 @@
+/**
+ * This file contains the helpers shared by the tests: a server on a free port
+ * and a raw TCP client, so the tests control every byte sent on the wire.
+ *
+ * @module helpers
+ */
+import * as net from "net";
+import { BodyReader, HTTPHandler, HTTPServer, ServerOptions } from "../echo/types";
+import { httpServer } from "../protocol/httpServerApi";
+import { configureLogger } from "../logger";
+
+// the tests do not write the log file
+configureLogger({ sinks: [] });
+
+/**
+ * Starts a server on a free port of the loopback interface.
+ * @param handler - The handler of the requests.
+ * @param options - The options of the server.
+ * @returns The server and its port.
+ */
+export async function startServer(
+	handler: HTTPHandler,
+	options: ServerOptions = {}
+): Promise<{ server: HTTPServer, port: number }> {
+	const server = httpServer(0, "127.0.0.1", handler, options);
+	if (!server.listener.server.listening) {
+		await new Promise<void>((resolve) => server.listener.server.once("listening", () => resolve()));
+	}
+	return { server: server, port: (server.address() as net.AddressInfo).port };
+}
+
+/**
+ * Sends raw data on a new connection and collects what the server sends back
+ * until it closes the connection or the time is up.
+ * @param port - The port of the server.
+ * @param parts - The pieces to send, each written after a short pause.
+ * @param wait - The time to wait for the response after the last piece, in ms.
+ * @returns The bytes received, as latin1 text.
+ */
+export function rawExchange(port: number, parts: Array<string | Buffer>, wait: number = 300): Promise<string> {
+	return new Promise((resolve) => {
+		const chunks: Buffer[] = [];
+		const socket = net.connect(port, "127.0.0.1");
+		let timer: NodeJS.Timeout | null = null;
+		const done = (): void => {
+			if (timer) {
+				clearTimeout(timer);
+			}
+			socket.destroy();
+			resolve(Buffer.concat(chunks).toString("latin1"));
+		};
+		socket.on("data", (data: Buffer) => chunks.push(data));
+		socket.on("error", () => done());
+		socket.on("close", () => done());
+		socket.on("connect", async () => {
+			for (const part of parts) {
+				socket.write(part);
+				await new Promise((r) => setTimeout(r, 20));
+			}
+			timer = setTimeout(done, wait);
+		});
+	});
+}
+
+/**
+ * Returns the status codes of the responses in raw response text.
+ */
+export function statusCodes(text: string): number[] {
+	const codes: number[] = [];
+	const re = /HTTP\/1\.[01] (\d{3})/g;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(text)) !== null) {
+		codes.push(parseInt(m[1], 10));
+	}
+	return codes;
+}
+
+/**
+ * Reads a body to its end.
+ * @param body - The reader of the body.
+ * @returns The bytes of the body, as latin1 text.
+ */
+export async function readAll(body: BodyReader): Promise<string> {
+	const chunks: Buffer[] = [];
+	let data: Buffer;
+	while ((data = await body.read()).length > 0) {
+		chunks.push(data);
+	}
+	return Buffer.concat(chunks).toString("latin1");
+}
@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { HTTPError, HTTPRes, TimeoutError } from "../echo/types";
+import { closePool, createPool, httpRequest } from "../protocol/httpClient";
+import { Headers } from "../protocol/headers";
+import { readAll, startServer } from "./helpers";
+
+/**
+ * Starts a TCP server answering every connection with the same raw bytes.
+ */
+async function rawServer(response: string): Promise<{ server: net.Server, port: number }> {
+	const server = net.createServer((socket) => {
+		socket.once("data", () => socket.write(response));
+		socket.on("error", () => {});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+	return { server: server, port: (server.address() as net.AddressInfo).port };
+}
+
+test("pooled requests of different sizes reuse one connection", async () => {
+	let conns = 0;
+	const { server, port } = await startServer(async (req, body): Promise<HTTPRes> => ({
+		code: 200,
+		headers: new Headers(),
+		body: body,
+	}));
+	server.listener.server.on("connection", () => conns++);
+	const pool = createPool();
+	try {
+		for (const size of [100, 200, 3000]) {
+			const res = await httpRequest("POST", `http://127.0.0.1:${port}/echo`, {}, "x".repeat(size), { pool: pool, timeout: 2000 });
+			assert.strictEqual(res.code, 200);
+			assert.strictEqual((await readAll(res.body)).length, size);
+		}
+		assert.strictEqual(conns, 1);
+	} finally {
+		closePool(pool);
+		await server.closeForcefully(100);
+	}
+});
+
+test("a malformed response body is a client error, not an HTTPError", async () => {
+	const { server, port } = await rawServer("HTTP/1.1 200 OK\r\nTransfer-Encoding: chunked\r\n\r\nzz\r\n");
+	try {
+		const res = await httpRequest("GET", `http://127.0.0.1:${port}/`, {}, null, { pool: null });
+		await assert.rejects(readAll(res.body), (error: Error) => !(error instanceof HTTPError) && /Bad response/.test(error.message));
+	} finally {
+		server.close();
+	}
+});
+
+test("a response body slower than the body timeout raises a TimeoutError", async () => {
+	const { server, port } = await rawServer("HTTP/1.1 200 OK\r\nContent-Length: 10\r\n\r\nabc");
+	try {
+		const res = await httpRequest("GET", `http://127.0.0.1:${port}/`, {}, null, { pool: null, bodyTimeout: 200 });
+		await assert.rejects(readAll(res.body), TimeoutError);
+	} finally {
+		server.close();
+	}
+});
+
+test("a request on a pooled connection closed by the server is sent again", async () => {
+	let conns = 0;
+	const server = net.createServer((socket) => {
+		conns++;
+		let requests = 0;
+		socket.on("data", () => {
+			// the server drops the idle connection as the second request arrives
+			if (++requests > 1) {
+				socket.destroy();
+				return;
+			}
+			socket.write("HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok");
+		});
+		socket.on("error", () => {});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+	const port = (server.address() as net.AddressInfo).port;
+	const pool = createPool();
+	try {
+		for (let i = 0; i < 2; i++) {
+			const res = await httpRequest("GET", `http://127.0.0.1:${port}/`, {}, null, { pool: pool, timeout: 2000 });
+			assert.strictEqual(await readAll(res.body), "ok");
+		}
+		assert.strictEqual(conns, 2);
+		// a body that cannot be sent again is not retried
+		await assert.rejects(httpRequest("POST", `http://127.0.0.1:${port}/`, {}, (async function* () {
+			yield "data";
+		})(), { pool: pool, timeout: 2000 }), /Connection closed/);
+	} finally {
+		closePool(pool);
+		server.close();
+	}
+});
@@ -0,0 +1,248 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { ParserOptions } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+test("100 Continue is sent when the handler passes the body through", async () => {
+	const { server, port } = await startServer(async (req, body) => ({
+		code: 200,
+		headers: new Headers(),
+		body: body,
+	}));
+	const socket = net.connect(port, "127.0.0.1");
+	let received = "";
+	socket.on("data", (data: Buffer) => {
+		received += data.toString("latin1");
+	});
+	try {
+		socket.write("POST /echo HTTP/1.1\r\nHost: x\r\nContent-Length: 5\r\nExpect: 100-continue\r\n\r\n");
+		const start = Date.now();
+		while (!received.includes("\r\n\r\n") && Date.now() - start < 500) {
+			await new Promise((r) => setTimeout(r, 10));
+		}
+		// the final head may follow, the body is only sent once asked for
+		assert.ok(received.startsWith("HTTP/1.1 100 Continue\r\n\r\n"), received);
+
+		socket.write("hello");
+		while (!received.endsWith("hello") && Date.now() - start < 1000) {
+			await new Promise((r) => setTimeout(r, 10));
+		}
+		assert.match(received, /^HTTP\/1\.1 100 Continue\r\n\r\nHTTP\/1\.1 200 OK\r\n/);
+		assert.ok(received.endsWith("\r\n\r\nhello"), received);
+		// the body was read, the connection is kept
+		assert.doesNotMatch(received, /Connection: close/i);
+	} finally {
+		socket.destroy();
+		await server.close();
+	}
+});
+
+// requests a lenient parser or an intermediary could frame differently, each
+// must be refused before the handler sees it
+const kMalicious: Array<{ name: string, request: string, code: number }> = [
+	{
+		name: "Content-Length with Transfer-Encoding",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 4\r\nTransfer-Encoding: chunked\r\n\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "duplicate Content-Length",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 1\r\nContent-Length: 2\r\n\r\nab",
+		code: 400,
+	},
+	{
+		name: "Content-Length list",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 1, 2\r\n\r\nab",
+		code: 400,
+	},
+	{
+		name: "signed Content-Length",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nContent-Length: +2\r\n\r\nab",
+		code: 400,
+	},
+	{
+		name: "obsolete line folding",
+		request: "GET / HTTP/1.1\r\nHost: x\r\nX-A: a\r\n b\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "bare LF line endings",
+		request: "GET / HTTP/1.1\nHost: x\n\n\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "whitespace before the colon",
+		request: "GET / HTTP/1.1\r\nHost : x\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "NUL in a field value",
+		request: "GET / HTTP/1.1\r\nHost: x\r\nX-A: a\0b\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "missing Host",
+		request: "GET / HTTP/1.1\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "Transfer-Encoding in HTTP/1.0",
+		request: "POST / HTTP/1.0\r\nTransfer-Encoding: chunked\r\n\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "chunked not last",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked, identity\r\n\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "unknown transfer coding",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: gzip, chunked\r\n\r\n0\r\n\r\n",
+		code: 501,
+	},
+	{
+		name: "chunk size not hexadecimal",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\nzz\r\n\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "negative chunk size",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n-1\r\n\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "prefixed chunk size",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n0x2\r\nab\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "overflowing chunk size",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\nfffffffffffffffff\r\nab\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "chunk longer than its size",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n2\r\nabc\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "bare LF after a chunk size",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n2\nab\r\n0\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "folded trailer",
+		request: "POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n0\r\nX-A: a\r\n b\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "body on a GET",
+		request: "GET / HTTP/1.1\r\nHost: x\r\nContent-Length: 2\r\n\r\nab",
+		code: 400,
+	},
+	{
+		name: "head too long",
+		request: `GET / HTTP/1.1\r\nHost: x\r\nX-A: ${"a".repeat(1024)}\r\n\r\n`,
+		code: 431,
+	},
+	{
+		name: "trailers too long",
+		request: `POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n0\r\n${"X-A: a\r\n".repeat(100)}\r\n`,
+		code: 431,
+	},
+	{
+		name: "too many header fields",
+		request: `GET / HTTP/1.1\r\nHost: x\r\n${"X-A: a\r\n".repeat(20)}\r\n`,
+		code: 431,
+	},
+	{
+		name: "double space in the request line",
+		request: "GET  / HTTP/1.1\r\nHost: x\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "version without the HTTP/ prefix",
+		request: "GET / HTTPS/1.1\r\nHost: x\r\n\r\n",
+		code: 400,
+	},
+	{
+		name: "unsupported version",
+		request: "GET / HTTP/2.0\r\nHost: x\r\n\r\n",
+		code: 505,
+	},
+	{
+		name: "unknown method",
+		request: "BREW / HTTP/1.1\r\nHost: x\r\n\r\n",
+		code: 501,
+	},
+	{
+		name: "method not a token",
+		request: "G(T / HTTP/1.1\r\nHost: x\r\n\r\n",
+		code: 400,
+	},
+];
+
+function startStrict(parser: ParserOptions = {}) {
+	return startServer(async (req, body) => {
+		let size = 0;
+		let data: Buffer;
+		while ((data = await body.read()).length > 0) {
+			size += data.length;
+		}
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from(`${req.headers.get("X-A")} ${size}\n`)) };
+	}, { parser: { maxHeaderSize: 512, maxHeaderCount: 10, ...parser } });
+}
+
+for (const { name, request, code } of kMalicious) {
+	test(`malformed request refused: ${name}`, async () => {
+		const { server, port } = await startStrict();
+		try {
+			const text = await rawExchange(port, [request], 100);
+			assert.deepStrictEqual(statusCodes(text), [code]);
+			// a request refused once its body is read must not be followed by another
+			assert.match(text, /\r\nConnection: close\r\n/i);
+		} finally {
+			await server.close();
+		}
+	});
+}
+
+test("the obsolete line folding is unfolded when allowed", async () => {
+	const { server, port } = await startStrict({ allowObsFold: true });
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\nX-A: a\r\n \t b\r\nConnection: close\r\n\r\n"]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.ok(text.endsWith("\r\n\r\na b 0\n"), text);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a length conflict is read as chunked and closes the connection when allowed", async () => {
+	const { server, port } = await startStrict({ allowLengthConflict: true });
+	try {
+		const text = await rawExchange(port, [
+			"POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 100\r\nTransfer-Encoding: chunked\r\n\r\n3\r\nabc\r\n0\r\n\r\n",
+			"GET / HTTP/1.1\r\nHost: x\r\n\r\n",
+		]);
+		// the request that followed is never read
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.match(text, /\r\nConnection: close\r\n/i);
+		assert.ok(text.endsWith("\r\n\r\nnull 3\n"), text);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a request without Host is served when allowed", async () => {
+	const { server, port } = await startStrict({ allowMissingHost: true });
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nConnection: close\r\n\r\n"]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+	} finally {
+		await server.close();
+	}
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { TCPListener } from "../echo/types";
+import { soAccept, soClose, soConnectionCounts, soListen } from "../echo/promise_based_api_tcp_server";
+
+async function listen(maxConnections: number, maxQueued: number): Promise<{ listener: TCPListener, port: number }> {
+	const listener = soListen(0, "127.0.0.1", { maxConnections: maxConnections, maxQueued: maxQueued });
+	if (!listener.server.listening) {
+		await new Promise<void>((resolve) => listener.server.once("listening", () => resolve()));
+	}
+	return { listener: listener, port: (listener.server.address() as net.AddressInfo).port };
+}
+
+/**
+ * Opens a connection and resolves once it is established.
+ */
+function connect(port: number): Promise<net.Socket> {
+	return new Promise((resolve) => {
+		const socket: net.Socket = net.connect(port, "127.0.0.1", () => resolve(socket));
+		socket.on("error", () => {});
+	});
+}
+
+async function until(ready: () => boolean): Promise<void> {
+	const start = Date.now();
+	while (!ready() && Date.now() - start < 1000) {
+		await new Promise((r) => setTimeout(r, 5));
+	}
+	assert.ok(ready());
+}
+
+test("the connections beyond the limit wait in the queue, then are rejected", async () => {
+	const { listener, port } = await listen(1, 1);
+	const clients: net.Socket[] = [];
+	try {
+		clients.push(await connect(port));
+		const first = await soAccept(listener);
+		clients.push(await connect(port));
+		await until(() => soConnectionCounts(listener).queued === 1);
+		assert.deepStrictEqual(soConnectionCounts(listener), { active: 1, queued: 1 });
+
+		// the queue is full, the next connection is closed at once
+		const rejected = await connect(port);
+		clients.push(rejected);
+		await new Promise((resolve) => rejected.once("close", resolve));
+
+		// the queued connection is accepted once the active one closes
+		const accepting = soAccept(listener);
+		first.destroy();
+		const second = await accepting;
+		assert.strictEqual(second.remotePort, clients[1].localPort);
+		assert.deepStrictEqual(soConnectionCounts(listener), { active: 1, queued: 0 });
+		second.destroy();
+	} finally {
+		clients.forEach((socket) => socket.destroy());
+		soClose(listener);
+	}
+});
+
+test("closing the listener fails the pending accept", async () => {
+	const { listener } = await listen(1, 1);
+	const accepting = soAccept(listener);
+	await assert.rejects(soAccept(listener), /another accept is pending/);
+	soClose(listener);
+	await assert.rejects(accepting, /listener closed/);
+	await assert.rejects(soAccept(listener), /listener closed/);
+});
@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { configureLogger, log, LogLevel, LogRecord, memorySink } from "../logger";
+
+test("a lazy message is only built when its level is logged", () => {
+	const records: LogRecord[] = [];
+	configureLogger({ level: LogLevel.INFO, sinks: [memorySink(records)] });
+	let built = 0;
+	const message = (): string => {
+		built++;
+		return "costly";
+	};
+	log(LogLevel.DEBUG, message);
+	assert.strictEqual(built, 0);
+	assert.strictEqual(records.length, 0);
+
+	configureLogger({ level: LogLevel.DEBUG });
+	log(LogLevel.DEBUG, message);
+	assert.strictEqual(built, 1);
+	assert.strictEqual(records[0].msg, "costly");
+});
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { BodyReader, HTTPError, HTTPReq, HTTPRes, Middleware } from "../echo/types";
+import { configureLogger, LogRecord, memorySink } from "../logger";
+import { catchErrors, compose, defaultHeaders, requestLogger } from "../protocol/middleware";
+import { readerFromMemory } from "../protocol/readers";
+import { textResponse } from "../protocol/router";
+import { rawExchange, readAll, startServer, statusCodes } from "./helpers";
+
+const kNoBody: BodyReader = readerFromMemory(Buffer.from(""));
+
+function tracer(name: string, trace: string[]): Middleware {
+	return async (req, body, next) => {
+		trace.push(`>${name}`);
+		const res = await next(req, body);
+		trace.push(`<${name}`);
+		return res;
+	};
+}
+
+test("compose runs the first middleware outermost", async () => {
+	const trace: string[] = [];
+	const handler = compose([tracer("a", trace), tracer("b", trace)], async (): Promise<HTTPRes> => {
+		trace.push("handler");
+		return textResponse(200, "");
+	});
+	await handler({} as HTTPReq, kNoBody);
+	assert.deepStrictEqual(trace, [">a", ">b", "handler", "<b", "<a"]);
+});
+
+test("a middleware can short-circuit the chain and wrap the response body", async () => {
+	let called = false;
+	const deny: Middleware = async (req, body, next) => req.method === "DELETE" ? textResponse(403, "no\n") : next(req, body);
+	const upper: Middleware = async (req, body, next) => {
+		const res = await next(req, body);
+		const inner = res.body;
+		res.body = {
+			length: inner.length,
+			read: async () => Buffer.from((await inner.read()).toString().toUpperCase()),
+		};
+		return res;
+	};
+	const handler = compose([upper, deny], async (): Promise<HTTPRes> => {
+		called = true;
+		return textResponse(200, "hello\n");
+	});
+	const denied = await handler({ method: "DELETE" } as HTTPReq, kNoBody);
+	assert.strictEqual(denied.code, 403);
+	assert.strictEqual(called, false);
+	const res = await handler({ method: "GET" } as HTTPReq, kNoBody);
+	assert.strictEqual(await readAll(res.body), "HELLO\n");
+});
+
+test("defaultHeaders keeps the headers set by the handler", async () => {
+	const handler = compose([defaultHeaders({ Server: "test", "Cache-Control": "no-store" })], async () => {
+		const res = textResponse(200, "");
+		res.headers.set("Cache-Control", "max-age=60");
+		return res;
+	});
+	const res = await handler({} as HTTPReq, kNoBody);
+	assert.strictEqual(res.headers.get("Server"), "test");
+	assert.strictEqual(res.headers.get("Cache-Control"), "max-age=60");
+});
+
+test("catchErrors answers 500 and keeps the connection, HTTPErrors pass through", async () => {
+	const { server, port } = await startServer(compose([catchErrors()], async (req): Promise<HTTPRes> => {
+		if (req.url.path === "/bad") {
+			throw new HTTPError(400, "Bad thing");
+		}
+		throw new Error("bug");
+	}));
+	try {
+		const text = await rawExchange(port, [
+			"GET /bug HTTP/1.1\r\nHost: x\r\n\r\n",
+			"GET /bad HTTP/1.1\r\nHost: x\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [500, 400]);
+		assert.match(text, /Internal Server Error\n/);
+		assert.match(text, /Bad thing\n$/);
+	} finally {
+		await server.close();
+	}
+});
+
+test("requestLogger logs the method, the target and the status", async () => {
+	const records: LogRecord[] = [];
+	configureLogger({ sinks: [memorySink(records)] });
+	try {
+		const handler = compose([requestLogger()], async () => textResponse(204, ""));
+		await handler({ method: "GET", uri: Buffer.from("/a?b=1") } as HTTPReq, kNoBody);
+		assert.strictEqual(records.length, 1);
+		assert.match(records[0].msg, /^GET \/a\?b=1 204 \d+ms$/);
+	} finally {
+		configureLogger({ sinks: [] });
+	}
+});
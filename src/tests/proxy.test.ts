@@ -0,0 +1,219 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { HTTPReq, HTTPRes, UpstreamPool } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { closeUpstreamPool, createUpstreamPool, proxyHandler, ProxyOptions } from "../protocol/proxy";
+import { readerFromMemory } from "../protocol/readers";
+import { textResponse } from "../protocol/router";
+import { rawExchange, readAll, startServer, statusCodes } from "./helpers";
+
+/**
+ * Starts an upstream answering with its name and the request it received.
+ */
+async function startUpstream(name: string, delay: () => Promise<void> = async () => {}) {
+	return startServer(async (req: HTTPReq, body): Promise<HTTPRes> => {
+		const received = await readAll(body);
+		await delay();
+		const headers = new Headers([["Content-Type", "application/json"], ["X-Upstream", name]]);
+		const text = JSON.stringify({ name: name, target: req.uri.toString("latin1"), headers: req.headers.entries(), body: received });
+		return { code: 200, headers: headers, body: readerFromMemory(Buffer.from(text)) };
+	});
+}
+
+async function startProxy(urls: string[], options: ProxyOptions = {}, poolOptions = {}) {
+	const pool = createUpstreamPool(urls, poolOptions);
+	const { server, port } = await startServer(proxyHandler(pool, options));
+	return { pool: pool, server: server, port: port };
+}
+
+/**
+ * Returns a port nothing listens on.
+ */
+async function closedPort(): Promise<number> {
+	const server = net.createServer();
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+	const port = (server.address() as net.AddressInfo).port;
+	await new Promise<void>((resolve) => server.close(() => resolve()));
+	return port;
+}
+
+async function get(port: number): Promise<{ code: number, name: string }> {
+	const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: front\r\nConnection: close\r\n\r\n"]);
+	const match = /\r\nX-Upstream: (\w+)\r\n/.exec(text);
+	return { code: statusCodes(text)[0], name: match ? match[1] : "" };
+}
+
+test("a request is forwarded with its body and without the hop-by-hop fields", async () => {
+	const upstream = await startUpstream("a");
+	const proxy = await startProxy([`http://127.0.0.1:${upstream.port}`]);
+	try {
+		const text = await rawExchange(proxy.port, [
+			"POST /x/y?q=1 HTTP/1.1\r\nHost: front.test\r\nConnection: X-Drop\r\nX-Drop: 1\r\nTE: trailers\r\n" +
+			"X-Forwarded-For: 10.0.0.1\r\nX-Keep: 2\r\nTransfer-Encoding: chunked\r\n\r\n",
+			"5\r\nhello\r\n",
+			"6\r\n world\r\n0\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		const received = JSON.parse(text.slice(text.indexOf("\r\n\r\n") + 4));
+		const headers = new Headers(received.headers);
+		assert.strictEqual(received.target, "/x/y?q=1");
+		assert.strictEqual(received.body, "hello world");
+		assert.strictEqual(headers.get("Host"), `127.0.0.1:${upstream.port}`);
+		assert.strictEqual(headers.get("X-Keep"), "2");
+		assert.ok(!headers.has("X-Drop") && !headers.has("TE"));
+		assert.strictEqual(headers.get("X-Forwarded-For"), "10.0.0.1, 127.0.0.1");
+		assert.strictEqual(headers.get("X-Forwarded-Proto"), "http");
+		assert.strictEqual(headers.get("X-Forwarded-Host"), "front.test");
+		assert.strictEqual(headers.get("Forwarded"), "for=127.0.0.1;proto=http;host=\"front.test\"");
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		await upstream.server.closeForcefully(100);
+	}
+});
+
+test("the hop-by-hop fields of the response are dropped", async () => {
+	const upstream = net.createServer((socket) => {
+		socket.once("data", () => socket.end(
+			"HTTP/1.1 200 OK\r\nConnection: X-Secret\r\nX-Secret: hop\r\nKeep-Alive: timeout=99\r\n" +
+			"Upgrade: h2c\r\nX-Public: 1\r\nTransfer-Encoding: chunked\r\n\r\n2\r\nok\r\n0\r\n\r\n"
+		));
+		socket.on("error", () => {});
+	});
+	await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", () => resolve()));
+	const proxy = await startProxy([`http://127.0.0.1:${(upstream.address() as net.AddressInfo).port}`]);
+	try {
+		const text = await rawExchange(proxy.port, ["GET / HTTP/1.1\r\nHost: front\r\nConnection: close\r\n\r\n"]);
+		assert.deepStrictEqual(statusCodes(text), [200]);
+		assert.match(text, /\r\nX-Public: 1\r\n/);
+		assert.doesNotMatch(text, /X-Secret|timeout=99|Upgrade/i);
+		// the body is framed again by the proxy
+		assert.ok(text.endsWith("\r\n\r\n2\r\nok\r\n0\r\n\r\n"), text);
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		upstream.close();
+	}
+});
+
+test("the Host of the client is kept when asked", async () => {
+	const upstream = await startUpstream("a");
+	const proxy = await startProxy([`http://127.0.0.1:${upstream.port}`], { preserveHost: true });
+	try {
+		const text = await rawExchange(proxy.port, ["GET / HTTP/1.1\r\nHost: front.test\r\nConnection: close\r\n\r\n"]);
+		const received = JSON.parse(text.slice(text.indexOf("\r\n\r\n") + 4));
+		assert.strictEqual(new Headers(received.headers).get("Host"), "front.test");
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		await upstream.server.closeForcefully(100);
+	}
+});
+
+test("the requests are balanced in round-robin order", async () => {
+	const a = await startUpstream("a");
+	const b = await startUpstream("b");
+	const proxy = await startProxy([`http://127.0.0.1:${a.port}`, `http://127.0.0.1:${b.port}`]);
+	try {
+		const names: string[] = [];
+		for (let i = 0; i < 4; i++) {
+			names.push((await get(proxy.port)).name);
+		}
+		assert.deepStrictEqual(names, ["a", "b", "a", "b"]);
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		await a.server.closeForcefully(100);
+		await b.server.closeForcefully(100);
+	}
+});
+
+test("least-connections avoids the busy upstream", async () => {
+	let release: () => void = () => {};
+	const slow = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	const a = await startUpstream("a", () => slow);
+	const b = await startUpstream("b");
+	const proxy = await startProxy(
+		[`http://127.0.0.1:${a.port}`, `http://127.0.0.1:${b.port}`],
+		{},
+		{ strategy: "least-connections" }
+	);
+	try {
+		const first = get(proxy.port);
+		while (proxy.pool.upstreams[0].active === 0) {
+			await new Promise((r) => setTimeout(r, 10));
+		}
+		assert.strictEqual((await get(proxy.port)).name, "b");
+		// round-robin would come back to a
+		assert.strictEqual((await get(proxy.port)).name, "b");
+		release();
+		assert.strictEqual((await first).name, "a");
+		assert.deepStrictEqual(proxy.pool.upstreams.map((u) => u.active), [0, 0]);
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		await a.server.closeForcefully(100);
+		await b.server.closeForcefully(100);
+	}
+});
+
+test("an unreachable upstream is marked down and the next one is tried", async () => {
+	const b = await startUpstream("b");
+	const dead = await closedPort();
+	const proxy = await startProxy([`http://127.0.0.1:${dead}`, `http://127.0.0.1:${b.port}`]);
+	try {
+		assert.deepStrictEqual(await get(proxy.port), { code: 200, name: "b" });
+		assert.strictEqual(proxy.pool.upstreams[0].healthy, false);
+		assert.deepStrictEqual(await get(proxy.port), { code: 200, name: "b" });
+	} finally {
+		closeUpstreamPool(proxy.pool);
+		await proxy.server.close();
+		await b.server.closeForcefully(100);
+	}
+});
+
+test("the failures are answered with 502 and 504", async () => {
+	const dead = await closedPort();
+	const down = await startProxy([`http://127.0.0.1:${dead}`]);
+	const silent = net.createServer((socket) => socket.on("error", () => {}));
+	await new Promise<void>((resolve) => silent.listen(0, "127.0.0.1", () => resolve()));
+	const slow = await startProxy([`http://127.0.0.1:${(silent.address() as net.AddressInfo).port}`], { timeout: 100 });
+	try {
+		assert.strictEqual((await get(down.port)).code, 502);
+		// every upstream is down
+		assert.strictEqual((await get(down.port)).code, 502);
+		assert.strictEqual((await get(slow.port)).code, 504);
+		// a slow upstream is not marked down
+		assert.strictEqual(slow.pool.upstreams[0].healthy, true);
+	} finally {
+		closeUpstreamPool(down.pool);
+		closeUpstreamPool(slow.pool);
+		await down.server.close();
+		await slow.server.closeForcefully(100);
+		silent.close();
+	}
+});
+
+test("the health checks mark the upstreams down and up", async () => {
+	let status = 503;
+	const { server, port } = await startServer(async () => textResponse(status, "health\n"));
+	const pool: UpstreamPool = createUpstreamPool([`http://127.0.0.1:${port}`], { healthPath: "/health", healthInterval: 50 });
+	const until = async (healthy: boolean): Promise<void> => {
+		const start = Date.now();
+		while (pool.upstreams[0].healthy !== healthy && Date.now() - start < 2000) {
+			await new Promise((r) => setTimeout(r, 10));
+		}
+		assert.strictEqual(pool.upstreams[0].healthy, healthy);
+	};
+	try {
+		await until(false);
+		status = 404;
+		await until(true);
+	} finally {
+		closeUpstreamPool(pool);
+		await server.closeForcefully(100);
+	}
+});
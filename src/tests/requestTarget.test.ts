@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { HTTPError, HTTPReq } from "../echo/types";
+import { parseAuthority, parseQuery, parseRequestTarget } from "../protocol/requestTarget";
+import { textResponse } from "../protocol/router";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+function isBadRequest(error: unknown): boolean {
+	return error instanceof HTTPError && error.code === 400;
+}
+
+test("the origin-form is split into a normalized path and a query", () => {
+	assert.deepStrictEqual(parseRequestTarget("/a/./b/../c%2fd%7e%41?x=1&y", "GET"), {
+		form: "origin",
+		scheme: null,
+		host: null,
+		port: null,
+		path: "/a/c%2Fd~A",
+		pathname: "/a/c/d~A",
+		search: "x=1&y",
+	});
+	// a path never goes above the root
+	assert.strictEqual(parseRequestTarget("/../../etc/passwd", "GET").path, "/etc/passwd");
+	assert.strictEqual(parseRequestTarget("/a/b/..", "GET").path, "/a/");
+	assert.strictEqual(parseRequestTarget("/a/.", "GET").path, "/a/");
+	assert.strictEqual(parseRequestTarget("/%2e%2E/x", "GET").path, "/x");
+});
+
+test("the absolute-form gives the scheme and the authority", () => {
+	assert.deepStrictEqual(parseRequestTarget("HTTP://Example.COM:8080?q=1", "GET"), {
+		form: "absolute",
+		scheme: "http",
+		host: "example.com",
+		port: 8080,
+		path: "/",
+		pathname: "/",
+		search: "q=1",
+	});
+	const url = parseRequestTarget("https://[::1]/x/y", "GET");
+	assert.strictEqual(url.host, "[::1]");
+	assert.strictEqual(url.port, null);
+	assert.strictEqual(url.path, "/x/y");
+	for (const target of ["ftp://example.com/", "http:/x", "example.com/x", "http://user@host/"]) {
+		assert.throws(() => parseRequestTarget(target, "GET"), isBadRequest, target);
+	}
+});
+
+test("the authority-form is for CONNECT and the asterisk-form for OPTIONS", () => {
+	assert.deepStrictEqual(parseRequestTarget("Example.com:443", "CONNECT"), {
+		form: "authority",
+		scheme: null,
+		host: "example.com",
+		port: 443,
+		path: "",
+		pathname: "",
+		search: "",
+	});
+	assert.throws(() => parseRequestTarget("example.com", "CONNECT"), isBadRequest);
+	assert.throws(() => parseRequestTarget("/x", "CONNECT"), isBadRequest);
+	assert.strictEqual(parseRequestTarget("*", "OPTIONS").form, "asterisk");
+	assert.throws(() => parseRequestTarget("*", "GET"), isBadRequest);
+});
+
+test("malformed targets are refused", () => {
+	for (const target of ["", "/a b", "/a#frag", "/\x7f", "/%", "/%zz", "/%00", "/%ff"]) {
+		assert.throws(() => parseRequestTarget(target, "GET"), isBadRequest, JSON.stringify(target));
+	}
+});
+
+test("parseAuthority reads the host and the port", () => {
+	assert.deepStrictEqual(parseAuthority("LOCALHOST"), { host: "localhost", port: null });
+	assert.deepStrictEqual(parseAuthority("localhost:"), { host: "localhost", port: null });
+	assert.deepStrictEqual(parseAuthority("[::1]:80"), { host: "[::1]", port: 80 });
+	for (const value of ["", "a:b", "a:65536", "a:123456", "u@a", "a/b"]) {
+		assert.throws(() => parseAuthority(value), isBadRequest, value);
+	}
+});
+
+test("parseQuery decodes repeated parameters without a prototype", () => {
+	const query = parseQuery("a=1&a=2&b=x+y%20z&flag&&=empty&constructor=c");
+	assert.deepStrictEqual(query.a, ["1", "2"]);
+	assert.deepStrictEqual(query.b, ["x y z"]);
+	assert.deepStrictEqual(query.flag, [""]);
+	assert.deepStrictEqual(query[""], ["empty"]);
+	assert.deepStrictEqual(query.constructor, ["c"]);
+	assert.strictEqual(query.toString, undefined);
+	assert.strictEqual(Object.getPrototypeOf(query), null);
+	assert.throws(() => parseQuery("a=%"), isBadRequest);
+});
+
+test("the server exposes the URL and the query, the host coming from the header", async () => {
+	const { server, port } = await startServer(async (req: HTTPReq) => textResponse(200, JSON.stringify({
+		form: req.url.form,
+		host: req.url.host,
+		port: req.url.port,
+		pathname: req.url.pathname,
+		query: req.query,
+	})));
+	try {
+		const text = await rawExchange(port, [
+			"GET /echo/%C3%A9t%C3%A9?x=1&x=2 HTTP/1.1\r\nHost: Example.com:81\r\n\r\n",
+			"GET http://other.test/p HTTP/1.1\r\nHost: example.com\r\nConnection: close\r\n\r\n",
+		]);
+		const bodies = text.split(/HTTP\/1\.1 200 OK\r\n/).slice(1)
+			.map((response) => JSON.parse(Buffer.from(response.slice(response.indexOf("\r\n\r\n") + 4), "latin1").toString("utf8")));
+		assert.deepStrictEqual(bodies, [
+			{ form: "origin", host: "example.com", port: 81, pathname: "/echo/été", query: { x: ["1", "2"] } },
+			// the host of an absolute-form target takes precedence over the header
+			{ form: "absolute", host: "other.test", port: null, pathname: "/p", query: {} },
+		]);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a bad target or host is answered with 400", async () => {
+	const { server, port } = await startServer(async () => textResponse(200, "ok"));
+	try {
+		for (const request of [
+			"GET /%zz HTTP/1.1\r\nHost: x\r\n\r\n",
+			"GET * HTTP/1.1\r\nHost: x\r\n\r\n",
+			"GET / HTTP/1.1\r\nHost: a b\r\n\r\n",
+			"GET / HTTP/1.1\r\nHost: a\r\nHost: b\r\n\r\n",
+			"GET / HTTP/1.1\r\n\r\n",
+			"GET /?a=%g HTTP/1.1\r\nHost: x\r\n\r\n",
+		]) {
+			assert.deepStrictEqual(statusCodes(await rawExchange(port, [request], 100)), [400], request);
+		}
+	} finally {
+		await server.close();
+	}
+});
@@ -0,0 +1,174 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { Readable } from "stream";
+import { HTTPRes } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { bodyReader, readerFromIterable, readerFromReaders, readerFromStream } from "../protocol/readers";
+import { streamResponse } from "../protocol/responseWriter";
+import { rawExchange, readAll, startServer } from "./helpers";
+
+function tick(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+test("a pushed response is sent chunked with its trailers", async () => {
+	const { server, port } = await startServer(async () => streamResponse(async (res) => {
+		res.trailers.set("X-Count", 2);
+		res.writeHead(201, new Headers([["Content-Type", "text/plain"]]));
+		await res.write("hello ");
+		await res.write(Buffer.from("world"));
+		await res.end("!");
+	}));
+	try {
+		const text = await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n"]);
+		assert.match(text, /^HTTP\/1\.1 201 Created\r\n/);
+		assert.match(text, /\r\nTransfer-Encoding: chunked\r\n/);
+		assert.match(text, /\r\nTrailer: X-Count\r\n/);
+		assert.ok(text.endsWith("\r\n\r\n6\r\nhello \r\n5\r\nworld\r\n1\r\n!\r\n0\r\nX-Count: 2\r\n\r\n"), text);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a write resolves once the server took the next data", async () => {
+	let first = false;
+	let second = false;
+	let release: () => void = () => {};
+	const res = await streamResponse(async (writer) => {
+		const written = writer.write("a").then(() => {
+			first = true;
+		});
+		writer.write("b").then(() => {
+			second = true;
+		});
+		await written;
+		await new Promise<void>((resolve) => {
+			release = resolve;
+		});
+	});
+	assert.strictEqual(res.code, 200);
+	assert.strictEqual(res.body.length, -1);
+	await tick();
+	assert.ok(!first);
+	assert.strictEqual((await res.body.read()).toString(), "a");
+	await tick();
+	// the data read may still be in flight to the client
+	assert.ok(!first);
+	assert.strictEqual((await res.body.read()).toString(), "b");
+	await tick();
+	assert.ok(first && !second);
+	release();
+	assert.strictEqual((await res.body.read()).length, 0);
+	assert.ok(second);
+});
+
+test("the errors of the producer reject the response or abort the body", async () => {
+	await assert.rejects(streamResponse(async () => {
+		throw new Error("before the head");
+	}), /before the head/);
+
+	const res = await streamResponse(async (writer) => {
+		writer.writeHead(200);
+		assert.throws(() => writer.writeHead(500), /head already sent/);
+		await tick();
+		throw new Error("after the head");
+	});
+	await assert.rejects(res.body.read(), /after the head/);
+});
+
+test("closing the body rejects the pending and later writes", async () => {
+	const errors: string[] = [];
+	let done: () => void = () => {};
+	const finished = new Promise<void>((resolve) => {
+		done = resolve;
+	});
+	const res = await streamResponse(async (writer) => {
+		await writer.write("never read").catch((error: Error) => errors.push(error.message));
+		await writer.write("too late").catch((error: Error) => errors.push(error.message));
+		done();
+	});
+	await res.body.close!();
+	await finished;
+	assert.deepStrictEqual(errors, ["response aborted", "response aborted"]);
+});
+
+test("the client leaving stops the producer", async () => {
+	let stopped: (error: Error) => void = () => {};
+	const producerError = new Promise<Error>((resolve) => {
+		stopped = resolve;
+	});
+	const { server, port } = await startServer(async () => streamResponse(async (res) => {
+		try {
+			while (true) {
+				await res.write("x".repeat(64 * 1024));
+			}
+		} catch (error) {
+			stopped(error as Error);
+		}
+	}));
+	try {
+		await rawExchange(port, ["GET / HTTP/1.1\r\nHost: x\r\n\r\n"], 50);
+		assert.strictEqual((await producerError).message, "response aborted");
+	} finally {
+		await server.close();
+	}
+});
+
+test("bodyReader adapts strings, buffers, streams and iterables", async () => {
+	async function* generate(): AsyncGenerator<string | Buffer> {
+		yield "a";
+		yield "";
+		yield Buffer.from("b");
+	}
+	assert.strictEqual(bodyReader("é").length, 2);
+	assert.strictEqual(await readAll(bodyReader("é")), Buffer.from("é").toString("latin1"));
+	assert.strictEqual(await readAll(bodyReader(Buffer.from("buf"))), "buf");
+	assert.strictEqual(await readAll(bodyReader(Readable.from(["s1", "s2"]))), "s1s2");
+	assert.strictEqual(await readAll(bodyReader(generate())), "ab");
+	const reader = bodyReader("x");
+	assert.strictEqual(bodyReader(reader), reader);
+	const concat = readerFromReaders([bodyReader("12"), bodyReader(generate()), bodyReader("3")]);
+	assert.strictEqual(concat.length, -1);
+	assert.strictEqual(await readAll(concat), "12ab3");
+	assert.strictEqual(readerFromReaders([bodyReader("12"), bodyReader("345")]).length, 5);
+});
+
+test("closing an adapted body releases its source", async () => {
+	let finished = false;
+	async function* generate(): AsyncGenerator<string> {
+		try {
+			yield "a";
+			yield "b";
+		} finally {
+			finished = true;
+		}
+	}
+	const iterated = readerFromIterable(generate());
+	assert.strictEqual((await iterated.read()).toString(), "a");
+	await iterated.close!();
+	assert.ok(finished);
+
+	const stream = Readable.from(["a", "b"]);
+	const streamed = readerFromStream(stream);
+	await streamed.read();
+	await streamed.close!();
+	assert.ok(stream.destroyed);
+});
+
+test("the server sends the adapted bodies", async () => {
+	const { server, port } = await startServer(async (req): Promise<HTTPRes> => ({
+		code: 200,
+		headers: new Headers(),
+		body: req.url.pathname === "/stream" ? bodyReader(Readable.from([Buffer.from("ab"), Buffer.from("c")])) : bodyReader("text"),
+	}));
+	try {
+		const text = await rawExchange(port, [
+			"GET /stream HTTP/1.1\r\nHost: x\r\n\r\nGET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n",
+		]);
+		assert.match(text, /\r\nTransfer-Encoding: chunked\r\n\r\n2\r\nab\r\n1\r\nc\r\n0\r\n\r\nHTTP\/1\.1 200 OK\r\n/);
+		assert.match(text, /\r\nContent-Length: 4\r\n/);
+		assert.ok(text.endsWith("\r\n\r\ntext"));
+	} finally {
+		await server.close();
+	}
+});
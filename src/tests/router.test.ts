@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { addRoute, createRouter, routerHandler, textResponse } from "../protocol/router";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+function request(port: number, method: string, target: string): Promise<string> {
+	return rawExchange(port, [`${method} ${target} HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n`]);
+}
+
+async function startRouter(): Promise<{ close: () => Promise<void>, port: number }> {
+	const router = createRouter();
+	addRoute(router, "GET", "/users/:id", async (req, body, params) => textResponse(200, `user ${params.id}\n`));
+	addRoute(router, "DELETE", "/users/:id", async (req, body, params) => textResponse(200, `deleted ${params.id}\n`));
+	addRoute(router, "GET", "/users/:id/posts/:post", async (req, body, params) => textResponse(200, `${params.id}/${params.post}\n`));
+	addRoute(router, "GET", "/static/*", async (req, body, params) => textResponse(200, `file ${params["*"]}\n`));
+	const { server, port } = await startServer(routerHandler(router));
+	return { close: () => server.close(), port: port };
+}
+
+test("addRoute rejects malformed patterns", () => {
+	const router = createRouter();
+	assert.throws(() => addRoute(router, "GET", "users", async () => textResponse(200, "")));
+	assert.throws(() => addRoute(router, "GET", "/a/*/b", async () => textResponse(200, "")));
+});
+
+test("the routes extract the decoded path parameters and the wildcard", async () => {
+	const { close, port } = await startRouter();
+	try {
+		assert.match(await request(port, "GET", "/users/a%20b"), /\r\n\r\nuser a b\n$/);
+		assert.match(await request(port, "DELETE", "/users/7"), /\r\n\r\ndeleted 7\n$/);
+		assert.match(await request(port, "GET", "/users/7/posts/3"), /\r\n\r\n7\/3\n$/);
+		assert.match(await request(port, "GET", "/static/css/site.css"), /\r\n\r\nfile css\/site\.css\n$/);
+		assert.match(await request(port, "GET", "/static/"), /\r\n\r\nfile \n$/);
+	} finally {
+		await close();
+	}
+});
+
+test("the router answers 404, 405 with Allow, HEAD and OPTIONS *", async () => {
+	const { close, port } = await startRouter();
+	try {
+		assert.deepStrictEqual(statusCodes(await request(port, "GET", "/nothing")), [404]);
+		assert.deepStrictEqual(statusCodes(await request(port, "GET", "/users")), [404]);
+
+		const notAllowed = await request(port, "POST", "/users/7");
+		assert.deepStrictEqual(statusCodes(notAllowed), [405]);
+		assert.match(notAllowed, /\r\nAllow: GET, DELETE, HEAD\r\n/);
+
+		// the GET route answers HEAD, the server drops the body
+		const head = await request(port, "HEAD", "/users/7");
+		assert.deepStrictEqual(statusCodes(head), [200]);
+		assert.match(head, /\r\nContent-Length: 7\r\n/);
+		assert.ok(head.endsWith("\r\n\r\n"), head);
+
+		const options = await request(port, "OPTIONS", "*");
+		assert.deepStrictEqual(statusCodes(options), [200]);
+		assert.match(options, /\r\nAllow: OPTIONS, GET, DELETE, HEAD\r\n/);
+	} finally {
+		await close();
+	}
+});
+
+test("a badly encoded parameter is refused", async () => {
+	const { close, port } = await startRouter();
+	try {
+		assert.deepStrictEqual(statusCodes(await request(port, "GET", "/users/%E0%A4%A")), [400]);
+	} finally {
+		await close();
+	}
+});
@@ -0,0 +1,175 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HTTPReq, SessionStore } from "../echo/types";
+import { signCookie } from "../protocol/cookies";
+import { compose } from "../protocol/middleware";
+import { textResponse } from "../protocol/router";
+import { destroySession, fileStore, memoryStore, regenerateSession, sessions, SessionOptions } from "../protocol/session";
+import { rawExchange, startServer } from "./helpers";
+
+/**
+ * Starts a server counting the visits of a session. The "/peek" path reads the
+ * session without changing it.
+ */
+async function startCounter(options: Partial<SessionOptions> = {}) {
+	const store = options.store || memoryStore();
+	const { server, port } = await startServer(compose([sessions({ secret: "s3cret", store: store, ...options })], async (req: HTTPReq) => {
+		const session = req.session!;
+		const target = req.url.pathname;
+		if (target === "/logout") {
+			destroySession(session);
+		} else if (target === "/login") {
+			regenerateSession(session);
+			session.data.user = "ana";
+		} else if (target !== "/peek") {
+			session.data.count = ((session.data.count as number) || 0) + 1;
+		}
+		return textResponse(200, JSON.stringify({ id: session.id, data: session.data }));
+	}));
+	return { server: server, port: port, store: store };
+}
+
+/**
+ * Sends a request with an optional cookie.
+ * @returns The session seen by the handler and the Set-Cookie value.
+ */
+async function visit(port: number, target: string, cookie?: string): Promise<{ id: string, data: any, setCookie: string | null }> {
+	const text = await rawExchange(port, [
+		`GET ${target} HTTP/1.1\r\nHost: x\r\n${cookie ? `Cookie: ${cookie}\r\n` : ""}Connection: close\r\n\r\n`,
+	]);
+	const m = /\r\nSet-Cookie: ([^\r]*)\r\n/.exec(text);
+	return { ...JSON.parse(text.slice(text.indexOf("\r\n\r\n") + 4)), setCookie: m ? m[1] : null };
+}
+
+function cookieOf(setCookie: string | null): string {
+	return setCookie!.split(";")[0];
+}
+
+test("a session is only stored once it holds data", async () => {
+	const { server, port } = await startCounter();
+	try {
+		const peek = await visit(port, "/peek");
+		assert.strictEqual(peek.setCookie, null);
+
+		const first = await visit(port, "/");
+		assert.deepStrictEqual(first.data, { count: 1 });
+		assert.match(first.setCookie!, /^sid=[^;]+; Path=\/; HttpOnly; SameSite=Lax$/);
+
+		// the cookie is only sent when the session is new
+		const second = await visit(port, "/", cookieOf(first.setCookie));
+		assert.strictEqual(second.id, first.id);
+		assert.deepStrictEqual(second.data, { count: 2 });
+		assert.strictEqual(second.setCookie, null);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a forged cookie gets a new session and an old secret still verifies", async () => {
+	const { server, port, store } = await startCounter({ secret: ["new", "old"] });
+	try {
+		await store.set("known", { count: 5 }, Date.now() + 60000);
+		const forged = await visit(port, "/", "sid=known.forged");
+		assert.notStrictEqual(forged.id, "known");
+		assert.deepStrictEqual(forged.data, { count: 1 });
+
+		const rotated = await visit(port, "/", `sid=${signCookie("known", "old")}`);
+		assert.strictEqual(rotated.id, "known");
+		assert.deepStrictEqual(rotated.data, { count: 6 });
+		// the first secret signs the new cookies
+		const fresh = await visit(port, "/");
+		assert.ok(fresh.setCookie!.startsWith(`sid=${encodeURIComponent(signCookie(fresh.id, "new"))};`));
+	} finally {
+		await server.close();
+	}
+});
+
+test("a destroyed session is deleted and its cookie cleared", async () => {
+	const { server, port, store } = await startCounter();
+	try {
+		const first = await visit(port, "/");
+		const logout = await visit(port, "/logout", cookieOf(first.setCookie));
+		assert.match(logout.setCookie!, /^sid=; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0; Path=\/; HttpOnly; SameSite=Lax$/);
+		assert.strictEqual(await store.get(first.id), null);
+		const after = await visit(port, "/", cookieOf(first.setCookie));
+		assert.notStrictEqual(after.id, first.id);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a regenerated session moves to a new id with its data", async () => {
+	const { server, port, store } = await startCounter();
+	try {
+		const first = await visit(port, "/");
+		const login = await visit(port, "/login", cookieOf(first.setCookie));
+		assert.ok(login.setCookie);
+		const moved = await visit(port, "/peek", cookieOf(login.setCookie));
+		assert.notStrictEqual(moved.id, first.id);
+		assert.deepStrictEqual(moved.data, { count: 1, user: "ana" });
+		assert.strictEqual(await store.get(first.id), null);
+	} finally {
+		await server.close();
+	}
+});
+
+test("the cookie options apply and a secret is required", async () => {
+	assert.throws(() => sessions({ secret: "" }), /secret is required/);
+	assert.throws(() => sessions({ secret: [] }), /secret is required/);
+	const { server, port } = await startCounter({ name: "app", cookie: { maxAge: 3600, path: "/app" } });
+	try {
+		const first = await visit(port, "/");
+		assert.match(first.setCookie!, /^app=[^;]+; Max-Age=3600; Path=\/app; HttpOnly; SameSite=Lax$/);
+	} finally {
+		await server.close();
+	}
+});
+
+/**
+ * Runs the checks shared by the stores.
+ */
+async function checkStore(store: SessionStore): Promise<void> {
+	assert.strictEqual(await store.get("missing"), null);
+	await store.set("a", { n: 1, list: [1, 2] }, Date.now() + 60000);
+	const data = (await store.get("a"))!;
+	assert.deepStrictEqual(data, { n: 1, list: [1, 2] });
+	// the data handed out is a copy
+	data.n = 2;
+	assert.deepStrictEqual(await store.get("a"), { n: 1, list: [1, 2] });
+	await store.set("expired", { n: 1 }, Date.now() - 1);
+	assert.strictEqual(await store.get("expired"), null);
+	await store.destroy("a");
+	assert.strictEqual(await store.get("a"), null);
+	await store.destroy("a");
+}
+
+test("the memory store drops the expired sessions", async () => {
+	const store = memoryStore({ sweepInterval: 20 });
+	await checkStore(store);
+	await store.set("short", {}, Date.now() + 30);
+	await new Promise((r) => setTimeout(r, 60));
+	assert.strictEqual(await store.get("short"), null);
+});
+
+test("the file store keeps one file per session", async () => {
+	const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sessions-")), "store");
+	try {
+		const store = fileStore(dir, { sweepInterval: 20 });
+		await checkStore(store);
+		await store.set("kept", { user: "ana" }, Date.now() + 60000);
+		await store.set("short", {}, Date.now() + 30);
+		assert.deepStrictEqual(fs.readdirSync(dir).sort(), ["kept.json", "short.json"]);
+		// the sweep removes the expired files without a get
+		await new Promise((r) => setTimeout(r, 100));
+		assert.deepStrictEqual(fs.readdirSync(dir), ["kept.json"]);
+		// another store on the same directory sees the sessions
+		assert.deepStrictEqual(await fileStore(dir).get("kept"), { user: "ana" });
+		await assert.rejects(store.get("../kept"), /Invalid session id/);
+		await assert.rejects(store.set("a/b", {}, Date.now()), /Invalid session id/);
+	} finally {
+		fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { encodeEvent, sseResponse, sseSend } from "../protocol/sse";
+import { startServer } from "./helpers";
+
+test("encodeEvent sends each line of the data as a field", () => {
+	assert.strictEqual(
+		encodeEvent({ id: "7", event: "tick", data: "a\nb\r\nc" }),
+		"id: 7\nevent: tick\ndata: a\ndata: b\ndata: c\n\n"
+	);
+	assert.strictEqual(encodeEvent({ data: "", retry: 3000 }), "retry: 3000\n\n");
+	assert.throws(() => encodeEvent({ id: "a\nb", data: "" }));
+});
+
+test("the stream closes when the client leaves, without heartbeats", async () => {
+	let gone: () => void = () => {};
+	const closed = new Promise<void>((resolve) => {
+		gone = resolve;
+	});
+	const { server, port } = await startServer(async (req) => sseResponse(req, async (stream) => {
+		assert.strictEqual(stream.lastEventId, "41");
+		await sseSend(stream, { data: "hello" });
+		await stream.done;
+		assert.strictEqual(stream.closed, true);
+		gone();
+	}, { heartbeat: 0 }));
+
+	const socket = net.connect(port, "127.0.0.1");
+	socket.write("GET / HTTP/1.1\r\nHost: x\r\nLast-Event-ID: 41\r\n\r\n");
+	await new Promise<void>((resolve) => socket.once("data", () => resolve()));
+	const start = Date.now();
+	socket.destroy();
+	await closed;
+	assert.ok(Date.now() - start < 500);
+	// nothing is left open
+	await server.close();
+});
+
+test("closing the server ends the open streams", async () => {
+	const { server, port } = await startServer(async (req) => sseResponse(req, async (stream) => {
+		await sseSend(stream, { data: "hello" });
+		await stream.done;
+	}, { heartbeat: 0 }));
+	const socket = net.connect(port, "127.0.0.1");
+	let received = "";
+	socket.on("data", (data: Buffer) => {
+		received += data.toString("latin1");
+	});
+	socket.write("GET / HTTP/1.1\r\nHost: x\r\n\r\n");
+	await new Promise<void>((resolve) => socket.once("data", () => resolve()));
+	const ended = new Promise((resolve) => socket.on("close", resolve));
+	try {
+		await server.close();
+		await ended;
+		// the chunked body was ended properly
+		assert.ok(received.endsWith("data: hello\n\n\r\n0\r\n\r\n"), received);
+	} finally {
+		socket.destroy();
+	}
+});
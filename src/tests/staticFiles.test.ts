@@ -0,0 +1,169 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Middleware } from "../echo/types";
+import { compression } from "../protocol/compression";
+import { compose } from "../protocol/middleware";
+import { addRoute, createRouter, routerHandler, textResponse } from "../protocol/router";
+import { serveStatic } from "../protocol/staticFiles";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+const kContent = "0123456789".repeat(10);
+
+/**
+ * Serves a temporary directory under /static/ with a text file, a directory
+ * with an index and a directory without one.
+ */
+async function startStatic(middlewares: Middleware[] = []): Promise<{ port: number, close: () => Promise<void> }> {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), "static-"));
+	fs.writeFileSync(path.join(root, "page.txt"), kContent);
+	fs.mkdirSync(path.join(root, "site"));
+	fs.writeFileSync(path.join(root, "site", "index.html"), "<p>home</p>\n");
+	fs.mkdirSync(path.join(root, "empty"));
+	const router = createRouter();
+	addRoute(router, "GET", "/static/*", serveStatic(root));
+	const { server, port } = await startServer(compose(middlewares, routerHandler(router)));
+	return {
+		port: port,
+		close: async () => {
+			await server.close();
+			fs.rmSync(root, { recursive: true });
+		},
+	};
+}
+
+function get(port: number, target: string, headers: string = ""): Promise<string> {
+	return rawExchange(port, [`GET ${target} HTTP/1.1\r\nHost: x\r\n${headers}Connection: close\r\n\r\n`]);
+}
+
+function header(text: string, name: string): string | null {
+	const m = new RegExp(`\r\n${name}: ([^\r]*)\r\n`, "i").exec(text);
+	return m ? m[1] : null;
+}
+
+test("files and directory indexes are served with their validators", async () => {
+	const { port, close } = await startStatic();
+	try {
+		const page = await get(port, "/static/page.txt");
+		assert.deepStrictEqual(statusCodes(page), [200]);
+		assert.strictEqual(header(page, "Content-Type"), "text/plain; charset=utf-8");
+		assert.strictEqual(header(page, "Accept-Ranges"), "bytes");
+		assert.match(header(page, "ETag") || "", /^"[0-9a-f]+-[0-9a-f]+"$/);
+		assert.ok(page.endsWith(`\r\n\r\n${kContent}`));
+
+		const redirect = await get(port, "/static/site");
+		assert.deepStrictEqual(statusCodes(redirect), [301]);
+		assert.strictEqual(header(redirect, "Location"), "/static/site/");
+		assert.ok((await get(port, "/static/site/")).endsWith("\r\n\r\n<p>home</p>\n"));
+
+		assert.deepStrictEqual(statusCodes(await get(port, "/static/empty/")), [404]);
+		assert.deepStrictEqual(statusCodes(await get(port, "/static/missing.txt")), [404]);
+		assert.deepStrictEqual(statusCodes(await get(port, "/static/..%2f..%2fetc%2fpasswd")), [403]);
+	} finally {
+		await close();
+	}
+});
+
+test("the conditional requests are answered with 304", async () => {
+	const { port, close } = await startStatic();
+	try {
+		const page = await get(port, "/static/page.txt");
+		const etag = header(page, "ETag");
+		const lastModified = header(page, "Last-Modified");
+
+		const byTag = await get(port, "/static/page.txt", `If-None-Match: "other", W/${etag}\r\n`);
+		assert.deepStrictEqual(statusCodes(byTag), [304]);
+		assert.strictEqual(header(byTag, "ETag"), etag);
+		assert.ok(byTag.endsWith("\r\n\r\n"));
+
+		assert.deepStrictEqual(statusCodes(await get(port, "/static/page.txt", `If-Modified-Since: ${lastModified}\r\n`)), [304]);
+		// If-None-Match takes precedence over If-Modified-Since
+		const changed = await get(port, "/static/page.txt", `If-None-Match: "other"\r\nIf-Modified-Since: ${lastModified}\r\n`);
+		assert.deepStrictEqual(statusCodes(changed), [200]);
+	} finally {
+		await close();
+	}
+});
+
+test("the byte ranges are answered with 206 or 416", async () => {
+	const { port, close } = await startStatic();
+	try {
+		const single = await get(port, "/static/page.txt", "Range: bytes=10-19\r\n");
+		assert.deepStrictEqual(statusCodes(single), [206]);
+		assert.strictEqual(header(single, "Content-Range"), "bytes 10-19/100");
+		assert.ok(single.endsWith("\r\n\r\n0123456789"));
+
+		const suffix = await get(port, "/static/page.txt", "Range: bytes=-5\r\n");
+		assert.strictEqual(header(suffix, "Content-Range"), "bytes 95-99/100");
+
+		const multi = await get(port, "/static/page.txt", "Range: bytes=0-1, 50-51\r\n");
+		assert.deepStrictEqual(statusCodes(multi), [206]);
+		const boundary = (header(multi, "Content-Type") || "").replace(/^multipart\/byteranges; boundary=/, "");
+		assert.ok(multi.includes(`--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Range: bytes 0-1/100\r\n\r\n01\r\n`));
+		assert.ok(multi.endsWith(`Content-Range: bytes 50-51/100\r\n\r\n01\r\n--${boundary}--\r\n`));
+
+		const unsatisfiable = await get(port, "/static/page.txt", "Range: bytes=200-\r\n");
+		assert.deepStrictEqual(statusCodes(unsatisfiable), [416]);
+		assert.strictEqual(header(unsatisfiable, "Content-Range"), "bytes */100");
+
+		// a range of another version of the file is not applied
+		const stale = await get(port, "/static/page.txt", "Range: bytes=0-1\r\nIf-Range: \"old\"\r\n");
+		assert.deepStrictEqual(statusCodes(stale), [200]);
+	} finally {
+		await close();
+	}
+});
+
+test("overlapping and adjacent ranges are merged", async () => {
+	const { port, close } = await startStatic();
+	try {
+		const repeated = await get(port, "/static/page.txt", `Range: bytes=${Array(16).fill("0-").join(",")}\r\n`);
+		assert.deepStrictEqual(statusCodes(repeated), [206]);
+		assert.strictEqual(header(repeated, "Content-Range"), "bytes 0-99/100");
+		assert.ok(repeated.endsWith(`\r\n\r\n${kContent}`));
+
+		const adjacent = await get(port, "/static/page.txt", "Range: bytes=20-29, 0-9, 10-19, 5-14\r\n");
+		assert.strictEqual(header(adjacent, "Content-Range"), "bytes 0-29/100");
+	} finally {
+		await close();
+	}
+});
+
+test("a response dropped before its body is sent opens no file", async () => {
+	let opened = 0;
+	const open = fs.promises.open;
+	fs.promises.open = (async (...args: Parameters<typeof open>) => {
+		opened++;
+		return open(...args);
+	}) as typeof open;
+	const replace: Middleware = async (req, body, next) => {
+		await next(req, body);
+		return textResponse(503, "Busy\n");
+	};
+	const { port, close } = await startStatic([replace]);
+	try {
+		assert.deepStrictEqual(statusCodes(await get(port, "/static/page.txt")), [503]);
+		assert.strictEqual(opened, 0);
+	} finally {
+		fs.promises.open = open;
+		await close();
+	}
+});
+
+test("a compressed static file is validated by its compressed entity tag", async () => {
+	const { port, close } = await startStatic([compression({ threshold: 0 })]);
+	try {
+		const first = await get(port, "/static/page.txt", "Accept-Encoding: gzip\r\n");
+		const etag = header(first, "ETag");
+		assert.match(etag || "", /-gzip"$/);
+
+		const second = await get(port, "/static/page.txt", `Accept-Encoding: gzip\r\nIf-None-Match: ${etag}\r\n`);
+		assert.deepStrictEqual(statusCodes(second), [304]);
+		// the tag of the cached representation is confirmed
+		assert.strictEqual(header(second, "ETag"), etag);
+	} finally {
+		await close();
+	}
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { HTTPRes } from "../echo/types";
+import { Headers } from "../protocol/headers";
+import { readerFromMemory } from "../protocol/readers";
+import { readAll, startServer, statusCodes } from "./helpers";
+
+/**
+ * Sends data and collects the answer until the server closes the connection.
+ * @returns The answer and the time the server took to close, in ms.
+ */
+function untilClosed(port: number, data: string): Promise<{ text: string, elapsed: number }> {
+	return new Promise((resolve) => {
+		const start = Date.now();
+		let text = "";
+		const socket = net.connect(port, "127.0.0.1", () => {
+			if (data) {
+				socket.write(data);
+			}
+		});
+		socket.on("data", (chunk: Buffer) => {
+			text += chunk.toString("latin1");
+		});
+		socket.on("error", () => {});
+		socket.on("close", () => resolve({ text: text, elapsed: Date.now() - start }));
+	});
+}
+
+function startCounting(): ReturnType<typeof startServer> {
+	return startServer(async (req, body): Promise<HTTPRes> => {
+		const text = await readAll(body);
+		return { code: 200, headers: new Headers(), body: readerFromMemory(Buffer.from(`${text.length}\n`)) };
+	}, { headerTimeout: 200, requestTimeout: 400, keepAliveTimeout: 200 });
+}
+
+test("a header block not completed in time is answered with 408", async () => {
+	const { server, port } = await startCounting();
+	try {
+		const { text, elapsed } = await untilClosed(port, "GET / HTTP/1.1\r\nHost: x\r\n");
+		assert.deepStrictEqual(statusCodes(text), [408]);
+		assert.match(text, /\r\nConnection: close\r\n/);
+		assert.ok(elapsed >= 150 && elapsed < 1000, `${elapsed}ms`);
+	} finally {
+		await server.close();
+	}
+});
+
+test("a body not received before the end of the request time is answered with 408", async () => {
+	const { server, port } = await startCounting();
+	try {
+		const { text, elapsed } = await untilClosed(port, "POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 10\r\n\r\nab");
+		assert.deepStrictEqual(statusCodes(text), [408]);
+		assert.ok(elapsed >= 350 && elapsed < 1500, `${elapsed}ms`);
+	} finally {
+		await server.close();
+	}
+});
+
+test("an idle connection is closed silently", async () => {
+	const { server, port } = await startCounting();
+	try {
+		const fresh = await untilClosed(port, "");
+		assert.strictEqual(fresh.text, "");
+		assert.ok(fresh.elapsed >= 150 && fresh.elapsed < 1000, `${fresh.elapsed}ms`);
+
+		// the idle time starts again after each response
+		const kept = await untilClosed(port, "GET / HTTP/1.1\r\nHost: x\r\n\r\n");
+		assert.deepStrictEqual(statusCodes(kept.text), [200]);
+		assert.match(kept.text, /\r\nKeep-Alive: timeout=\d+, max=\d+\r\n/);
+		assert.ok(kept.text.endsWith("\r\n\r\n0\n"));
+	} finally {
+		await server.close();
+	}
+});
@@ -0,0 +1,156 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as tls from "tls";
+import { HTTPReq, TLSCertificate, TLSOptions } from "../echo/types";
+import { textResponse } from "../protocol/router";
+import { startServer } from "./helpers";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tls-test-"));
+process.on("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+
+function openssl(args: string[]): void {
+	execFileSync("openssl", args, { cwd: dir, stdio: "ignore" });
+}
+
+/**
+ * Generates a key and a certificate, self-signed or signed by the CA.
+ */
+function certificate(name: string, ca?: string): TLSCertificate {
+	const file = name.replace("*", "wildcard");
+	const key = ["-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1", "-nodes", "-keyout", `${file}.key`];
+	if (ca) {
+		openssl(["req", "-new", ...key, "-out", `${file}.csr`, "-subj", `/CN=${name}`]);
+		openssl(["x509", "-req", "-in", `${file}.csr`, "-CA", `${ca}.crt`, "-CAkey", `${ca}.key`,
+			"-set_serial", "1", "-days", "1", "-out", `${file}.crt`]);
+	} else {
+		openssl(["req", "-x509", ...key, "-out", `${file}.crt`, "-subj", `/CN=${name}`, "-days", "1"]);
+	}
+	return {
+		cert: fs.readFileSync(path.join(dir, `${file}.crt`)),
+		key: fs.readFileSync(path.join(dir, `${file}.key`)),
+	};
+}
+
+const ca = certificate("Test CA");
+const localhost = certificate("localhost");
+const exact = certificate("api.example.com");
+const wildcard = certificate("*.example.com");
+const client = certificate("client", "Test CA");
+const stranger = certificate("stranger");
+
+async function startTLS(options: Partial<TLSOptions> = {}) {
+	return startServer(async (req: HTTPReq) => textResponse(200, JSON.stringify({
+		protocol: req.tls ? req.tls.protocol : null,
+		servername: req.tls ? req.tls.servername : null,
+		authorized: req.tls ? req.tls.authorized : null,
+		peer: req.tls && req.tls.peerCertificate ? req.tls.peerCertificate.subject.CN : null,
+	})), { listen: { tls: { ...localhost, ...options } } });
+}
+
+/**
+ * Sends a request over TLS.
+ * @returns The common name of the server certificate and the response text.
+ */
+function tlsRequest(port: number, options: tls.ConnectionOptions = {}): Promise<{ cn: string, text: string }> {
+	return new Promise((resolve, reject) => {
+		const socket = tls.connect({ port: port, host: "127.0.0.1", rejectUnauthorized: false, ...options }, () => {
+			socket.write("GET / HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n");
+		});
+		const chunks: Buffer[] = [];
+		socket.on("data", (data: Buffer) => chunks.push(data));
+		socket.on("error", reject);
+		socket.on("end", () => {
+			resolve({
+				cn: socket.getPeerCertificate().subject.CN,
+				text: Buffer.concat(chunks).toString("latin1"),
+			});
+			socket.destroy();
+		});
+	});
+}
+
+function body(text: string): { [key: string]: unknown } {
+	return JSON.parse(text.slice(text.indexOf("\r\n\r\n") + 4));
+}
+
+test("the handshake exposes the TLS parameters on the request", async () => {
+	const { server, port } = await startTLS();
+	try {
+		const { cn, text } = await tlsRequest(port, { servername: "localhost", ca: localhost.cert });
+		assert.strictEqual(cn, "localhost");
+		assert.ok(text.startsWith("HTTP/1.1 200"));
+		assert.deepStrictEqual(body(text), {
+			protocol: "TLSv1.3",
+			servername: "localhost",
+			authorized: false,
+			peer: null,
+		});
+	} finally {
+		await server.close();
+	}
+});
+
+test("the certificate is selected by server name", async () => {
+	const sni = { "api.example.com": exact, "*.example.com": wildcard };
+	const { server, port } = await startTLS({ sni: sni });
+	try {
+		assert.strictEqual((await tlsRequest(port, { servername: "API.example.com" })).cn, "api.example.com");
+		assert.strictEqual((await tlsRequest(port, { servername: "www.example.com" })).cn, "*.example.com");
+		// a wildcard matches a single label
+		assert.strictEqual((await tlsRequest(port, { servername: "a.b.example.com" })).cn, "localhost");
+		assert.strictEqual((await tlsRequest(port, { servername: "example.com" })).cn, "localhost");
+		// the names are not looked up in the prototype of an object
+		assert.strictEqual((await tlsRequest(port, { servername: "__proto__" })).cn, "localhost");
+		assert.strictEqual((await tlsRequest(port, { servername: "constructor" })).cn, "localhost");
+	} finally {
+		await server.close();
+	}
+});
+
+test("a name without a dot does not match a wildcard", async () => {
+	// "*" + the last character of "localhostm" would be "*m"
+	const { server, port } = await startTLS({ sni: { "*m": exact } });
+	try {
+		assert.strictEqual((await tlsRequest(port, { servername: "localhostm" })).cn, "localhost");
+	} finally {
+		await server.close();
+	}
+});
+
+test("a client certificate is verified with the CA", async () => {
+	const { server, port } = await startTLS({ ca: ca.cert, requestCert: true });
+	try {
+		const { text } = await tlsRequest(port, client);
+		assert.deepStrictEqual(body(text), {
+			protocol: "TLSv1.3",
+			servername: null,
+			authorized: true,
+			peer: "client",
+		});
+		// a certificate from another CA is rejected, with TLS 1.3 after the
+		// client considers the handshake done
+		const rejected = await tlsRequest(port, stranger).then((result) => result.text, () => "");
+		assert.strictEqual(rejected, "");
+	} finally {
+		await server.close();
+	}
+});
+
+test("a client certificate may be optional", async () => {
+	const { server, port } = await startTLS({ ca: ca.cert, requestCert: true, rejectUnauthorized: false });
+	try {
+		assert.deepStrictEqual(body((await tlsRequest(port, stranger)).text), {
+			protocol: "TLSv1.3",
+			servername: null,
+			authorized: false,
+			peer: "stranger",
+		});
+		assert.strictEqual(body((await tlsRequest(port)).text).peer, null);
+	} finally {
+		await server.close();
+	}
+});
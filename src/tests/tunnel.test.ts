@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { compose } from "../protocol/middleware";
+import { textResponse } from "../protocol/router";
+import { connectTunnel } from "../protocol/tunnel";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+async function startEchoTarget(): Promise<{ target: net.Server, port: number }> {
+	const target = net.createServer((socket) => socket.pipe(socket));
+	await new Promise<void>((resolve) => target.listen(0, "127.0.0.1", () => resolve()));
+	return { target: target, port: (target.address() as net.AddressInfo).port };
+}
+
+test("a deny rule applies to every spelling of the address", async () => {
+	const { target, port: targetPort } = await startEchoTarget();
+	const { server, port } = await startServer(compose(
+		[connectTunnel({ allow: ["*:*"], deny: ["127.0.0.1:*"] })],
+		async () => textResponse(404, "Not Found\n")
+	));
+	try {
+		for (const host of ["127.0.0.1", "127.1", "2130706433", "0x7f.1", "localhost"]) {
+			const text = await rawExchange(port, [`CONNECT ${host}:${targetPort} HTTP/1.1\r\nHost: ${host}:${targetPort}\r\n\r\n`], 100);
+			assert.deepStrictEqual(statusCodes(text), [403], host);
+		}
+	} finally {
+		await server.close();
+		target.close();
+	}
+});
+
+test("the tunnel connects to the address allowed", async () => {
+	const { target, port: targetPort } = await startEchoTarget();
+	const { server, port } = await startServer(compose(
+		[connectTunnel({ allow: [`127.0.0.1:${targetPort}`] })],
+		async () => textResponse(404, "Not Found\n")
+	));
+	try {
+		const text = await rawExchange(port, [
+			`CONNECT 127.1:${targetPort} HTTP/1.1\r\nHost: 127.1:${targetPort}\r\n\r\n`,
+			"ping",
+		], 100);
+		assert.match(text, /^HTTP\/1\.1 200 Connection Established\r\n/);
+		// the connection is a tunnel now, not a persistent HTTP connection
+		assert.doesNotMatch(text, /Keep-Alive|Connection:/i);
+		assert.ok(text.endsWith("\r\n\r\nping"), text);
+	} finally {
+		await server.close();
+		target.close();
+	}
+});
+
+test("closing the server cuts the open tunnels", async () => {
+	const { target, port: targetPort } = await startEchoTarget();
+	const { server, port } = await startServer(compose(
+		[connectTunnel({ allow: ["127.0.0.1:*"] })],
+		async () => textResponse(404, "Not Found\n")
+	));
+	const socket = net.connect(port, "127.0.0.1");
+	socket.on("error", () => {});
+	try {
+		socket.write(`CONNECT 127.0.0.1:${targetPort} HTTP/1.1\r\nHost: 127.0.0.1:${targetPort}\r\n\r\n`);
+		await new Promise<void>((resolve) => socket.once("data", () => resolve()));
+		const ended = new Promise((resolve) => socket.on("close", resolve));
+		await server.close();
+		await ended;
+	} finally {
+		socket.destroy();
+		target.close();
+	}
+});
+
+test("the target is closed when the client leaves before the tunnel starts", async () => {
+	const closed: Promise<void>[] = [];
+	const target = net.createServer((socket) => {
+		socket.on("error", () => {});
+		closed.push(new Promise((resolve) => socket.on("close", () => resolve())));
+	});
+	await new Promise<void>((resolve) => target.listen(0, "127.0.0.1", () => resolve()));
+	const targetPort = (target.address() as net.AddressInfo).port;
+	const { server, port } = await startServer(compose(
+		[
+			// an outer middleware still busy when the client leaves
+			async (req, body, next) => {
+				const res = await next(req, body);
+				await new Promise((r) => setTimeout(r, 100));
+				return res;
+			},
+			connectTunnel({ allow: ["127.0.0.1:*"] }),
+		],
+		async () => textResponse(404, "Not Found\n")
+	));
+	try {
+		const text = await rawExchange(port, [`CONNECT 127.0.0.1:${targetPort} HTTP/1.1\r\nHost: 127.0.0.1:${targetPort}\r\n\r\n`], 20);
+		assert.strictEqual(text, "");
+		const start = Date.now();
+		while (closed.length === 0 && Date.now() - start < 1000) {
+			await new Promise((r) => setTimeout(r, 10));
+		}
+		assert.strictEqual(closed.length, 1);
+		await Promise.race([closed[0], new Promise((r, reject) => setTimeout(() => reject(new Error("target left open")), 1000))]);
+	} finally {
+		await server.closeForcefully(100);
+		target.close();
+	}
+});
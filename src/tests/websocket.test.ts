@@ -0,0 +1,199 @@
+import { test } from "node:test";
+import assert from "node:assert";
+import * as net from "net";
+import { HTTPError, TimeoutError } from "../echo/types";
+import { acceptWebSocket, computeAccept, wsRecv, wsSend } from "../protocol/websocket";
+import { rawExchange, startServer, statusCodes } from "./helpers";
+
+// the key of the example of RFC 6455, section 1.3
+const kKey = "dGhlIHNhbXBsZSBub25jZQ==";
+
+type WSClient = { socket: net.Socket, head: string, data: Buffer };
+type Frame = { fin: boolean, opcode: number, payload: Buffer };
+
+async function until(ready: () => boolean, what: string): Promise<void> {
+	const start = Date.now();
+	while (!ready()) {
+		if (Date.now() - start > 1000) {
+			throw new Error(`timed out waiting for ${what}`);
+		}
+		await new Promise((r) => setTimeout(r, 5));
+	}
+}
+
+/**
+ * Opens a WebSocket connection and waits for the head of the response.
+ */
+async function connect(port: number): Promise<WSClient> {
+	const client: WSClient = { socket: net.connect(port, "127.0.0.1"), head: "", data: Buffer.alloc(0) };
+	client.socket.on("data", (data: Buffer) => {
+		client.data = Buffer.concat([client.data, data]);
+	});
+	client.socket.on("error", () => {});
+	client.socket.write(
+		"GET /ws HTTP/1.1\r\nHost: x\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n"
+		+ `Sec-WebSocket-Key: ${kKey}\r\nSec-WebSocket-Version: 13\r\n\r\n`
+	);
+	await until(() => client.data.indexOf("\r\n\r\n") >= 0, "the handshake");
+	const idx = client.data.indexOf("\r\n\r\n") + 4;
+	client.head = client.data.subarray(0, idx).toString("latin1");
+	client.data = client.data.subarray(idx);
+	return client;
+}
+
+/**
+ * Sends a frame, masked like the frames of a client unless told otherwise.
+ */
+function sendFrame(client: WSClient, opcode: number, payload: Buffer | string, fin: boolean = true, masked: boolean = true): void {
+	const data = Buffer.from(payload);
+	const mask = Buffer.from([1, 2, 3, 4]);
+	const header = Buffer.from([(fin ? 0x80 : 0) | opcode, (masked ? 0x80 : 0) | data.length]);
+	const body = masked ? Buffer.from(data.map((b, i) => b ^ mask[i & 3])) : data;
+	client.socket.write(Buffer.concat(masked ? [header, mask, body] : [header, body]));
+}
+
+/**
+ * Waits for the next frame of the server, with a payload shorter than 126 bytes.
+ */
+async function recvFrame(client: WSClient): Promise<Frame> {
+	await until(() => client.data.length >= 2 && client.data.length >= 2 + (client.data[1] & 0x7f), "a frame");
+	const len = client.data[1] & 0x7f;
+	const frame = {
+		fin: (client.data[0] & 0x80) !== 0,
+		opcode: client.data[0] & 0x0f,
+		payload: Buffer.from(client.data.subarray(2, 2 + len)),
+	};
+	client.data = client.data.subarray(2 + len);
+	return frame;
+}
+
+function closeCode(frame: Frame): number {
+	return frame.payload.readUInt16BE(0);
+}
+
+/**
+ * Starts a server echoing the messages of a WebSocket session.
+ */
+function startEcho(maxMessageSize?: number): ReturnType<typeof startServer> {
+	return startServer(async (req) => acceptWebSocket(req, async (ws) => {
+		let msg;
+		while ((msg = await wsRecv(ws)) !== null) {
+			await wsSend(ws, msg.type === "text" ? msg.data.toString("utf8") : msg.data);
+		}
+	}, { maxMessageSize: maxMessageSize }));
+}
+
+test("the error classes keep their prototype", () => {
+	const error = new HTTPError(400, "Bad");
+	assert.ok(error instanceof HTTPError);
+	assert.ok(error instanceof Error);
+	assert.strictEqual(error.code, 400);
+	assert.ok(new TimeoutError("slow") instanceof TimeoutError);
+});
+
+test("computeAccept follows the example of the RFC", () => {
+	assert.strictEqual(computeAccept(kKey), "s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+});
+
+test("a request that is not a valid handshake is refused", async () => {
+	const { server, port } = await startEcho();
+	try {
+		const plain = await rawExchange(port, ["GET /ws HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n"]);
+		assert.deepStrictEqual(statusCodes(plain), [426]);
+		const badKey = await rawExchange(port, [
+			"GET /ws HTTP/1.1\r\nHost: x\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n"
+			+ "Sec-WebSocket-Key: short\r\nSec-WebSocket-Version: 13\r\n\r\n",
+		]);
+		assert.deepStrictEqual(statusCodes(badKey), [400]);
+	} finally {
+		await server.close();
+	}
+});
+
+test("fragmented messages are reassembled and pings answered", async () => {
+	const { server, port } = await startEcho();
+	const client = await connect(port);
+	try {
+		assert.match(client.head, /^HTTP\/1\.1 101 Switching Protocols\r\n/);
+		assert.match(client.head, /\r\nSec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK\+xOo=\r\n/);
+
+		sendFrame(client, 0x1, "hel", false);
+		// a control frame may come between the fragments
+		sendFrame(client, 0x9, "are you there");
+		sendFrame(client, 0x0, "lo");
+		const pong = await recvFrame(client);
+		assert.strictEqual(pong.opcode, 0xa);
+		assert.strictEqual(pong.payload.toString(), "are you there");
+		const echo = await recvFrame(client);
+		assert.deepStrictEqual([echo.fin, echo.opcode, echo.payload.toString()], [true, 0x1, "hello"]);
+
+		sendFrame(client, 0x2, Buffer.from([0, 255]));
+		assert.deepStrictEqual((await recvFrame(client)).payload, Buffer.from([0, 255]));
+
+		const close = Buffer.alloc(2);
+		close.writeUInt16BE(1000, 0);
+		sendFrame(client, 0x8, close);
+		const reply = await recvFrame(client);
+		assert.strictEqual(reply.opcode, 0x8);
+		assert.strictEqual(closeCode(reply), 1000);
+	} finally {
+		client.socket.destroy();
+		await server.close();
+	}
+});
+
+test("protocol violations close the session with their code", async () => {
+	const { server, port } = await startEcho(16);
+	try {
+		const unmasked = await connect(port);
+		sendFrame(unmasked, 0x1, "hi", true, false);
+		assert.strictEqual(closeCode(await recvFrame(unmasked)), 1002);
+		unmasked.socket.destroy();
+
+		const tooBig = await connect(port);
+		sendFrame(tooBig, 0x1, "x".repeat(17));
+		assert.strictEqual(closeCode(await recvFrame(tooBig)), 1009);
+		tooBig.socket.destroy();
+
+		const invalid = await connect(port);
+		sendFrame(invalid, 0x1, Buffer.from([0xc3, 0x28]));
+		assert.strictEqual(closeCode(await recvFrame(invalid)), 1007);
+		invalid.socket.destroy();
+	} finally {
+		await server.close();
+	}
+});
+
+test("closing the server ends the open sessions", async () => {
+	const { server, port } = await startEcho();
+	const client = await connect(port);
+	try {
+		const closing = server.close();
+		const frame = await recvFrame(client);
+		assert.strictEqual(frame.opcode, 0x8);
+		assert.strictEqual(closeCode(frame), 1001);
+		sendFrame(client, 0x8, frame.payload.subarray(0, 2));
+		await closing;
+	} finally {
+		client.socket.destroy();
+	}
+});
+
+test("a peer not answering the close frame is disconnected", async () => {
+	const { server, port } = await startServer(async (req) => acceptWebSocket(req, async (ws) => {
+		while ((await wsRecv(ws)) !== null) {
+			// wait for the end of the session
+		}
+	}, { closeTimeout: 100 }));
+	const client = await connect(port);
+	const closed = new Promise((resolve) => client.socket.on("close", resolve));
+	try {
+		const start = Date.now();
+		await server.close();
+		await closed;
+		assert.strictEqual((await recvFrame(client)).opcode, 0x8);
+		assert.ok(Date.now() - start < 1000);
+	} finally {
+		client.socket.destroy();
+	}
+});
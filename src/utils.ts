@@ -1,20 +1,12 @@
-import * as fs from 'fs';
+import { log, LogLevel } from './logger';
 
-const logFile = 'logs/log.txt';
+export { LogLevel };
 
-export enum LogLevel {
-	INFO,
-	WARN,
-	ERROR,
+/**
+ * Logs a message through the structured logger.
+ * @param msg - The message, or a function building it for the costly debug messages.
+ * @param level - The level of the message.
+ */
+export function customLog(msg: string | (() => string), level: LogLevel = LogLevel.INFO): void{
+	log(level, msg);
 }
-
-export function customLog(msg: string, level: LogLevel = LogLevel.INFO): void{
-	try {
-		if(!fs.existsSync('logs')){
-			fs.mkdirSync('logs');
-		}
-		fs.appendFileSync(logFile, `${new Date().toISOString()} ${LogLevel[level]}: ${msg}\n`);
-	} catch (error) {
-		console.error(error);
-	}
-}
\ No newline at end of file